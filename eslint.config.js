@@ -23,6 +23,9 @@ export default [
         setInterval: "readonly",
         clearInterval: "readonly",
         fetch: "readonly",
+        crypto: "readonly",
+        TextEncoder: "readonly",
+        TextDecoder: "readonly",
         // Browser globals
         window: "readonly",
         document: "readonly",
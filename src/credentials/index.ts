@@ -0,0 +1,215 @@
+/**
+ * Credential providers that supply the OAuth client credentials
+ */
+
+import type {
+  ClientAssertionAlgorithm,
+  ClientCredentials,
+  ClientSecretCredentials,
+  CredentialProvider,
+  PrivateKeyCredentials,
+} from '../types';
+import { createConfigError } from '../utils/errors';
+
+const ASSERTION_ALGORITHMS: ClientAssertionAlgorithm[] = ['RS256', 'ES256'];
+
+/**
+ * Checks that both credentials are present and trims them
+ */
+function toCredentials(
+  clientId: string | undefined,
+  clientSecret: string | undefined,
+  origin: string,
+): ClientSecretCredentials {
+  const id = clientId?.trim();
+  const secret = clientSecret?.trim();
+
+  if (!id || !secret) {
+    throw createConfigError(`Client credentials missing from ${origin}`);
+  }
+
+  return { clientId: id, clientSecret: secret };
+}
+
+/**
+ * Provider for credentials known when the SDK is created
+ */
+export class StaticCredentialProvider implements CredentialProvider {
+  private readonly credentials: ClientCredentials;
+
+  constructor(clientId: string, clientSecret: string) {
+    this.credentials = toCredentials(clientId, clientSecret, 'arguments');
+  }
+
+  async getCredentials(): Promise<ClientCredentials> {
+    return this.credentials;
+  }
+}
+
+/**
+ * Checks private key credentials and trims the client ID
+ */
+function toPrivateKeyCredentials(
+  credentials: PrivateKeyCredentials,
+  origin: string,
+): PrivateKeyCredentials {
+  const { clientId, privateKey, algorithm, keyId } = credentials;
+  const id = clientId?.trim();
+  const hasKey =
+    typeof privateKey === 'string'
+      ? privateKey.trim().length > 0
+      : typeof privateKey === 'object' && privateKey !== null;
+
+  if (!id || !hasKey) {
+    throw createConfigError(`Client ID or private key missing from ${origin}`);
+  }
+  if (!ASSERTION_ALGORITHMS.includes(algorithm)) {
+    throw createConfigError("algorithm must be 'RS256' or 'ES256'");
+  }
+
+  return { clientId: id, privateKey, algorithm, ...(keyId && { keyId }) };
+}
+
+/**
+ * Provider for a client that authenticates with a private key
+ * (private_key_jwt) instead of a shared secret
+ *
+ * Each token request carries a short-lived JWT assertion signed with the
+ * key. Register the matching public key with the authorization server.
+ */
+export class PrivateKeyCredentialProvider implements CredentialProvider {
+  private readonly credentials: PrivateKeyCredentials;
+
+  /**
+   * @param clientId - OAuth client ID
+   * @param privateKey - PKCS#8 PEM (BEGIN PRIVATE KEY) or a CryptoKey
+   * @param algorithm - Signing algorithm (default: 'RS256')
+   * @param keyId - Key ID sent as the `kid` JWT header
+   */
+  constructor(
+    clientId: string,
+    privateKey: string | CryptoKey,
+    algorithm: ClientAssertionAlgorithm = 'RS256',
+    keyId?: string,
+  ) {
+    this.credentials = toPrivateKeyCredentials(
+      { clientId, privateKey, algorithm, keyId },
+      'arguments',
+    );
+  }
+
+  async getCredentials(): Promise<ClientCredentials> {
+    return this.credentials;
+  }
+}
+
+/**
+ * Provider that reads credentials from environment variables
+ *
+ * The variables are read for every token request, so updated values are
+ * picked up without recreating the SDK.
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  private readonly clientIdVar: string;
+  private readonly clientSecretVar: string;
+
+  constructor(
+    clientIdVar: string = 'ORBITPORT_CLIENT_ID',
+    clientSecretVar: string = 'ORBITPORT_CLIENT_SECRET',
+  ) {
+    this.clientIdVar = clientIdVar;
+    this.clientSecretVar = clientSecretVar;
+  }
+
+  async getCredentials(): Promise<ClientCredentials> {
+    if (typeof process === 'undefined' || !process.env) {
+      throw createConfigError(
+        'Environment variables are not available in this environment',
+      );
+    }
+
+    return toCredentials(
+      process.env[this.clientIdVar],
+      process.env[this.clientSecretVar],
+      `environment variables ${this.clientIdVar} and ${this.clientSecretVar}`,
+    );
+  }
+}
+
+/**
+ * Provider that reads credentials from files, such as a mounted Kubernetes
+ * secret
+ *
+ * The files are read for every token request, so a rotated secret is used
+ * as soon as the next token is requested. Surrounding whitespace, including
+ * the trailing newline most secret files end with, is ignored.
+ */
+export class FileCredentialProvider implements CredentialProvider {
+  private readonly clientIdFile: string;
+  private readonly clientSecretFile: string;
+  private readonly fs: typeof import('fs');
+
+  constructor(
+    clientIdFile: string = '/var/run/secrets/orbitport/client-id',
+    clientSecretFile: string = '/var/run/secrets/orbitport/client-secret',
+  ) {
+    this.clientIdFile = clientIdFile;
+    this.clientSecretFile = clientSecretFile;
+    // Dynamic import to avoid bundling fs in browser builds
+    try {
+      this.fs = require('fs');
+    } catch (_error) {
+      throw new Error('File system access not available in this environment');
+    }
+  }
+
+  async getCredentials(): Promise<ClientCredentials> {
+    let contents: string[];
+    try {
+      contents = await Promise.all([
+        this.fs.promises.readFile(this.clientIdFile, 'utf8'),
+        this.fs.promises.readFile(this.clientSecretFile, 'utf8'),
+      ]);
+    } catch (error) {
+      throw createConfigError(
+        `Failed to read client credentials: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error,
+      );
+    }
+
+    return toCredentials(
+      contents[0],
+      contents[1],
+      `files ${this.clientIdFile} and ${this.clientSecretFile}`,
+    );
+  }
+}
+
+/**
+ * Provider backed by a user-defined async callback, e.g. to read credentials
+ * from a vault
+ *
+ * The callback runs for every token request. Cache inside it if the backing
+ * store is slow or rate limited.
+ */
+export class CallbackCredentialProvider implements CredentialProvider {
+  private readonly callback: () => Promise<ClientCredentials>;
+
+  constructor(callback: () => Promise<ClientCredentials>) {
+    this.callback = callback;
+  }
+
+  async getCredentials(): Promise<ClientCredentials> {
+    const credentials = await this.callback();
+    if (credentials && 'privateKey' in credentials) {
+      return toPrivateKeyCredentials(credentials, 'credential callback');
+    }
+    return toCredentials(
+      credentials?.clientId,
+      credentials?.clientSecret,
+      'credential callback',
+    );
+  }
+}
@@ -6,13 +6,18 @@
 
 export * from "./types";
 export * from "./storage";
+export * from "./credentials";
 export * from "./utils/errors";
 export * from "./utils/retry";
 export * from "./utils/validation";
+export { verifyCTRNGSignature } from "./utils/signature";
 
 export { AuthService } from "./services/auth";
 export { CTRNGService } from "./services/ctrng";
-export { BeaconService } from "./services/ipfs";
+export { BeaconService } from "./services/beacon";
+export { BeaconWatcher } from "./services/beacon-watcher";
+export { EntropyPool } from "./services/entropy-pool";
+export { SeededGenerator } from "./services/seeded-generator";
 
 import type {
   OrbitportConfig,
@@ -20,10 +25,21 @@ import type {
   SDKEventHandler,
   CTRNGRequest,
   RequestOptions,
+  CTRNGResponse,
+  RandomBytesOptions,
+  BatchRequestOptions,
+  EntropyPoolOptions,
+  MixedEntropyRequest,
+  SeededGeneratorOptions,
+  TokenScope,
+  BeaconHistoryOptions,
+  BeaconAtOptions,
+  BeaconWatchOptions,
 } from "./types";
 import { AuthService } from "./services/auth";
 import { CTRNGService } from "./services/ctrng";
 import { BeaconService } from "./services/beacon";
+import { EntropyPool } from "./services/entropy-pool";
 import { createDefaultStorage } from "./storage";
 import { sanitizeConfig } from "./utils/validation";
 
@@ -84,9 +100,15 @@ export class OrbitportSDK {
 
     this.ctrngService = new CTRNGService(
       this.config,
-      () => this.authService.getValidToken(),
+      () => this.authService.getValidToken(this.config.tokenScopes?.ctrng),
       this.beaconService,
-      this.debug
+      this.debug,
+      options.eventHandler,
+      (rejectedToken) =>
+        this.authService.refreshToken(
+          rejectedToken,
+          this.config.tokenScopes?.ctrng
+        )
     );
 
     if (this.debug) {
@@ -94,6 +116,7 @@ export class OrbitportSDK {
         ...this.config,
         clientId: "[REDACTED]",
         clientSecret: "[REDACTED]",
+        credentials: this.config.credentials && "[REDACTED]",
       });
     }
   }
@@ -130,6 +153,19 @@ export class OrbitportSDK {
    *   block: 10012, // Traverse to block 10012
    *   index: 1 // Select the 2nd value from that block
    * });
+   *
+   * // Generate an unbiased integer between 1 and 6 (inclusive)
+   * const roll = await sdk.ctrng.int(1, 6);
+   * console.log(roll.data.value, roll.data.entropy);
+   *
+   * // Generate a 32-byte key (seeded expansion) or raw cTRNG bytes only
+   * const key = await sdk.ctrng.bytes(32);
+   * const raw = await sdk.ctrng.bytes(64, {}, { mode: 'raw' });
+   *
+   * // Serve bytes synchronously from a prefetched pool
+   * const pool = sdk.ctrng.pool({ size: 4096 });
+   * await pool.refill();
+   * const nonce = pool.take(16);
    * ```
    */
   get ctrng() {
@@ -154,6 +190,250 @@ export class OrbitportSDK {
        */
       random: (request?: Partial<CTRNGRequest>, options?: RequestOptions) =>
         this.ctrngService.random(request, options),
+
+      /**
+       * Generates an unbiased random integer in the inclusive range [min, max]
+       *
+       * Uses rejection sampling, so out-of-range draws are discarded and more
+       * entropy is pulled from the API or further beacon indices. The result
+       * lists every entropy value consumed (source, sequence, index).
+       *
+       * @param min - Lower bound (inclusive, safe integer)
+       * @param max - Upper bound (inclusive, safe integer)
+       * @param request - Request parameters selecting the entropy source
+       * @param options - Request options (timeout, retries, headers)
+       * @returns Promise resolving to ServiceResult with RandomIntResult
+       */
+      int: (
+        min: number,
+        max: number,
+        request?: Partial<CTRNGRequest>,
+        options?: RequestOptions
+      ) => this.ctrngService.randomInt(min, max, request, options),
+
+      /**
+       * Generates random bytes of any length
+       *
+       * API requests never fall back to the public IPFS beacon unless
+       * `request.fallback` allows it. Where every value came from is
+       * reported in `metadata.entropy`.
+       *
+       * @param length - Number of bytes to generate
+       * @param request - Request parameters selecting the entropy source
+       * @param options - Request options plus `mode`:
+       *   - "expand" (default): expands a 256-bit cTRNG seed with HKDF-SHA256
+       *   - "raw": every byte comes directly from cTRNG values, never expanded
+       * @returns Promise resolving to ServiceResult with a Uint8Array; the mode
+       *   used is reported in `metadata.entropy_mode`
+       */
+      bytes: (
+        length: number,
+        request?: Partial<CTRNGRequest>,
+        options?: RandomBytesOptions
+      ) => this.ctrngService.randomBytes(length, request, options),
+
+      /**
+       * Generates multiple random values in one call
+       *
+       * - API sources: one access token is reused for every request and at
+       *   most `options.concurrency` (default: 4) requests run at once.
+       *   Values a failed batch could not get are filled from the latest
+       *   beacon and listed in `metadata.fallbackItems`
+       * - IPFS: the beacon is resolved once and count values of its cTRNG
+       *   array are returned starting at `index`, continuing into the blocks
+       *   its `previous` links point to when the array runs out
+       *
+       * @param count - Number of values to generate
+       * @param request - Request parameters (same as random())
+       * @param options - Request options plus concurrency
+       * @returns Promise resolving to ServiceResult with a CTRNGResponse list
+       */
+      batch: (
+        count: number,
+        request?: Partial<CTRNGRequest>,
+        options?: BatchRequestOptions
+      ) => this.ctrngService.randomBatch(count, request, options),
+
+      /**
+       * Generates random bytes from several sources mixed together
+       *
+       * Reads every source in parallel ("trng", "rng", "ipfs" and "local",
+       * the platform CSPRNG) and combines them with SHA-512 over
+       * length-prefixed inputs, so the output is as strong as the best
+       * honest source. API sources never fall back to IPFS.
+       *
+       * @param request - Request parameters
+       *   - sources: sources to mix (default: trng if credentials are
+       *     configured, ipfs and local)
+       *   - length: output bytes (default: 64)
+       *   - minSources: sources that must succeed (default: all)
+       *   - verify: verify API signatures
+       * @param options - Request options (timeout, retries, headers)
+       * @returns Promise resolving to ServiceResult with the bytes and a
+       *   report of every input
+       */
+      mixed: (request?: MixedEntropyRequest, options?: RequestOptions) =>
+        this.ctrngService.randomMixed(request, options),
+
+      /**
+       * Creates a deterministic generator seeded from a beacon block
+       *
+       * The seed is derived from all cTRNG values of the block, and the
+       * generator is a ChaCha20 keystream with nextInt, nextFloat and bytes.
+       * Anyone can replay the same draws later from the public beacon with
+       * `SeededGenerator.fromBeacon(block, label)`. The outputs are public,
+       * so never use them as secrets.
+       *
+       * @param options - Options
+       *   - beacon: sequence of the block to seed from ("INF" for latest)
+       *   - beaconPath: beacon to read (defaults to the configured beacon)
+       *   - label: separates independent streams from the same block
+       * @param requestOptions - Request options (timeout, retries, headers)
+       * @returns Promise resolving to ServiceResult with a SeededGenerator
+       */
+      seededGenerator: (
+        options: SeededGeneratorOptions,
+        requestOptions?: RequestOptions
+      ) => this.ctrngService.seededGenerator(options, requestOptions),
+
+      /**
+       * Verifies the signature of a cTRNG API response against the trusted
+       * public keys pinned in `config.trustedPublicKeys`
+       *
+       * Pass `verify: true` in a random() request to verify automatically;
+       * such requests fail with SIGNATURE_INVALID instead of falling back to
+       * unsigned IPFS data.
+       *
+       * @param response - Response returned by random()
+       * @returns Promise resolving to the verification result
+       */
+      verifySignature: (response: CTRNGResponse) =>
+        this.ctrngService.verifySignature(response),
+
+      /**
+       * Creates a pool of prefetched cTRNG bytes
+       *
+       * The pool fills itself in the background and serves `take(n)`
+       * synchronously from memory, refilling once it drops below
+       * `lowWater` bytes. API pools never fall back to the public IPFS
+       * beacon unless `request.fallback` allows it. Call `stop()` when it is
+       * no longer needed.
+       *
+       * @param options - Pool size, low-water mark, values per refill call,
+       *   the request selecting the source, and request options
+       * @returns Entropy pool
+       */
+      pool: (options?: EntropyPoolOptions) =>
+        new EntropyPool(this.ctrngService, options, this.debug),
+    };
+  }
+
+  /**
+   * IPFS beacon service
+   *
+   * @example
+   * ```typescript
+   * // Verify the hash chain between two beacon sequences
+   * const report = await sdk.beacon.verifyChain(10000, 10012);
+   * if (!report.data.valid) {
+   *   console.log(report.data.gaps, report.data.forks);
+   * }
+   *
+   * // Find the first beacon published after a draw closed
+   * const draw = await sdk.beacon.getBeaconAt("2024-06-01T12:00:00Z", {
+   *   direction: "after",
+   * });
+   *
+   * // React to every new beacon round
+   * const watcher = sdk.beacon.watch(undefined, { interval: 5000 });
+   * watcher.on("beacon", (block) => console.log(block.sequence));
+   *
+   * // Iterate over the last 100 beacon blocks, newest first
+   * for await (const block of sdk.beacon.history({ limit: 100 })) {
+   *   console.log(block.sequence, block.ctrng);
+   * }
+   * ```
+   */
+  get beacon() {
+    return {
+      /**
+       * Verifies the beacon hash chain between two sequence numbers
+       *
+       * Walks `previous` links back from the beacon head, reading every block
+       * from both the gateway and the API, and reports sequence gaps, forks
+       * between sources, timestamps that move backwards and links that do not
+       * resolve to their CID.
+       *
+       * @param fromSequence - Oldest sequence to verify (inclusive)
+       * @param toSequence - Newest sequence to verify (inclusive)
+       * @param path - Beacon path (defaults to the configured beacon)
+       * @param options - Request options
+       * @returns Promise resolving to the chain verification report
+       */
+      verifyChain: (
+        fromSequence: number,
+        toSequence: number,
+        path?: string,
+        options?: RequestOptions
+      ) =>
+        this.beaconService.verifyChain(
+          fromSequence,
+          toSequence,
+          path,
+          options
+        ),
+
+      /**
+       * Iterates over beacon blocks from newest to oldest
+       *
+       * Starts at the beacon head (or at `cid`) and follows `previous` links,
+       * yielding each block once. Stops at `limit`, `untilSequence`,
+       * `untilTimestamp`, the start of the chain, or when `signal` is aborted.
+       *
+       * @param options - History options
+       * @returns Async iterable of beacon blocks
+       */
+      history: (options?: BeaconHistoryOptions) =>
+        this.beaconService.history(options),
+
+      /**
+       * Gets the beacon block that was current at a given instant
+       *
+       * Uses a galloping and binary search over the chain, reading blocks
+       * indexed in the block cache directly. With `direction: 'after'`, returns
+       * the first block published strictly after the instant instead.
+       *
+       * @param date - Instant to look up
+       * @param options - Lookup options
+       * @returns Promise resolving to the matching beacon block
+       */
+      getBeaconAt: (date: Date | string, options?: BeaconAtOptions) =>
+        this.beaconService.getBeaconAt(date, options),
+
+      /**
+       * Watches a beacon for new blocks
+       *
+       * Polls the head and emits every new block exactly once, in sequence
+       * order, filling in blocks published between polls. Subscribe with
+       * `on('beacon')` / `on('error')` or iterate with `for await`; call
+       * `stop()` when done.
+       *
+       * @param path - Beacon path (defaults to the configured beacon)
+       * @param options - Watch options
+       * @returns Beacon watcher
+       */
+      watch: (path?: string, options?: BeaconWatchOptions) =>
+        this.beaconService.watch(path, options),
+
+      /**
+       * Gets health statistics for every configured IPFS node
+       *
+       * Reports latency, error rate, staleness and cool-down state per node,
+       * in the order reads prefer them.
+       *
+       * @returns Health report per node
+       */
+      getNodeHealth: () => this.beaconService.getNodeHealth(),
     };
   }
 
@@ -176,23 +456,45 @@ export class OrbitportSDK {
     return {
       /**
        * Checks if the current token is valid
+       *
+       * @param scope - Audience and scopes of the token (default: the token
+       *   used by the cTRNG service)
        */
-      isTokenValid: () => this.authService.isTokenValid(),
+      isTokenValid: (scope?: TokenScope) =>
+        this.authService.isTokenValid(scope ?? this.config.tokenScopes?.ctrng),
 
       /**
        * Gets token information without refreshing
+       *
+       * Includes the audience and the granted scopes when they are known.
+       *
+       * @param scope - Audience and scopes of the token (default: the token
+       *   used by the cTRNG service)
        */
-      getTokenInfo: () => this.authService.getTokenInfo(),
+      getTokenInfo: (scope?: TokenScope) =>
+        this.authService.getTokenInfo(scope ?? this.config.tokenScopes?.ctrng),
 
       /**
-       * Clears the stored token
+       * Clears the stored tokens of all scopes
        */
       clearToken: () => this.authService.clearToken(),
 
       /**
        * Gets a valid access token (internal use)
+       *
+       * @param scope - Audience and scopes to request (default: the token
+       *   used by the cTRNG service)
        */
-      getValidToken: () => this.authService.getValidToken(),
+      getValidToken: (scope?: TokenScope) =>
+        this.authService.getValidToken(scope ?? this.config.tokenScopes?.ctrng),
+
+      /**
+       * Stops the background token refresh enabled by `tokenRefresh`
+       *
+       * The refresh resumes with the next token the SDK obtains or uses. Set
+       * `tokenRefresh.enabled` to false through updateConfig to turn it off.
+       */
+      stopRefresh: () => this.authService.stopTokenRefresh(),
     };
   }
 
@@ -214,13 +516,20 @@ export class OrbitportSDK {
    * ```
    */
   updateConfig(newConfig: Partial<OrbitportConfig>): void {
-    const updatedConfig = sanitizeConfig({ ...this.config, ...newConfig });
+    // IPFS settings are merged, as the beacon service does with its own copy
+    const updatedConfig = sanitizeConfig({
+      ...this.config,
+      ...newConfig,
+      ipfs: { ...this.config.ipfs, ...newConfig.ipfs }
+    });
     this.config = updatedConfig;
     this.authService.updateConfig(updatedConfig);
+    // The cTRNG service reads fallback, trustedPublicKeys and the IPFS
+    // settings from its own copy of the configuration
+    this.ctrngService.updateConfig(updatedConfig);
 
     // Update IPFS configuration if provided
     if (newConfig.ipfs) {
-      this.ctrngService.updateIPFSConfig(newConfig.ipfs);
       this.beaconService.updateConfig(newConfig.ipfs);
     }
 
@@ -228,6 +537,7 @@ export class OrbitportSDK {
       console.log("[OrbitportSDK] Configuration updated:", {
         ...updatedConfig,
         clientSecret: "[REDACTED]",
+        credentials: updatedConfig.credentials && "[REDACTED]",
       });
     }
   }
@@ -246,6 +556,7 @@ export class OrbitportSDK {
    */
   setEventHandler(handler: SDKEventHandler): void {
     this.authService.setEventHandler(handler);
+    this.ctrngService.setEventHandler(handler);
   }
 
   /**
@@ -268,14 +579,17 @@ export class OrbitportSDK {
    *
    * @returns Current configuration object
    */
-  getConfig(): Omit<OrbitportConfig, "clientSecret"> & {
+  getConfig(): Omit<OrbitportConfig, "clientSecret" | "credentials"> & {
     clientId: "[REDACTED]";
     clientSecret: "[REDACTED]";
+    credentials?: "[REDACTED]";
   } {
     return {
       ...this.config,
       clientId: "[REDACTED]",
       clientSecret: "[REDACTED]",
+      // The provider would hand out the secret or private key to any caller
+      credentials: this.config.credentials && "[REDACTED]",
     };
   }
 }
@@ -10,6 +10,9 @@ import type {
   SDKEvent,
   SDKEventHandler,
   APIError,
+  ClientCredentials,
+  TokenScope,
+  TokenInfo,
 } from '../types';
 import {
   OrbitportSDKError,
@@ -19,6 +22,47 @@ import {
 } from '../utils/errors';
 import { withRetry, RETRY_STRATEGIES } from '../utils/retry';
 import { isTokenExpired } from '../utils/validation';
+import { base64UrlEncode, importSigningKey, signJWT } from '../utils/jwt';
+
+const CLIENT_ASSERTION_TYPE =
+  'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+// Client assertions are single use, so they only need to outlive the request
+const CLIENT_ASSERTION_LIFETIME = 60;
+
+// Audience and normalized scope of a token, with its storage key
+interface ResolvedScope {
+  audience: string;
+  scope?: string;
+  key?: string; // Undefined for the default audience without scopes
+}
+
+/**
+ * Reads the expiry (seconds since epoch) from a JWT payload
+ */
+function getTokenExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    return typeof payload.exp === 'number' ? payload.exp : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the granted scopes from a JWT `scope` or `scp` claim
+ */
+function getTokenScopes(token: string): string[] | undefined {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    if (typeof payload.scope === 'string') {
+      return payload.scope.split(' ').filter(Boolean);
+    }
+    return Array.isArray(payload.scp) ? payload.scp : undefined;
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * Authentication service class
@@ -28,7 +72,14 @@ export class AuthService {
   private storage: TokenStorage;
   private eventHandler?: SDKEventHandler;
   private debug: boolean;
-  private tokenPromise: Promise<string | null> | undefined = undefined;
+  // Keyed by token storage key, '' being the default token
+  private tokenPromises = new Map<string, Promise<string | null>>();
+  private refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private scopes = new Map<string, ResolvedScope>();
+  private grantedScopes = new Map<string, { token: string; scope?: string }>();
+  private lastUsed = 0;
+  // Bumped by clearToken so that background refreshes queued before it stop
+  private clearCount = 0;
 
   constructor(
     config: OrbitportConfig,
@@ -44,35 +95,152 @@ export class AuthService {
 
   /**
    * Gets a valid access token, refreshing if necessary
+   * @param scope - Audience and scopes to request (defaults to the cTRNG API
+   * audience without scopes). Each combination has its own cached token.
    */
-  async getValidToken(): Promise<string | null> {
+  async getValidToken(scope?: TokenScope): Promise<string | null> {
+    this.lastUsed = Date.now();
+    const resolved = this.resolveScope(scope);
+    const slot = resolved.key ?? '';
+
     // Prevent multiple simultaneous token requests
-    if (this.tokenPromise) {
-      return this.tokenPromise;
+    const pending = this.tokenPromises.get(slot);
+    if (pending) {
+      return pending;
     }
 
-    this.tokenPromise = this._getValidToken();
+    const tokenPromise = this._getValidToken(resolved);
+    this.tokenPromises.set(slot, tokenPromise);
 
     try {
-      const token = await this.tokenPromise;
+      const token = await tokenPromise;
       return token;
     } finally {
-      this.tokenPromise = undefined;
+      this.tokenPromises.delete(slot);
     }
   }
 
+  /**
+   * Replaces a token the API rejected before its expiry
+   *
+   * Callers rejected with the same token share one token request: when
+   * another caller has already replaced it, the stored token is returned.
+   * The check, clear and new request run as the slot's single in-flight
+   * token request, so a late clear cannot wipe a token just refreshed.
+   * @param rejectedToken - Token the API answered 401 or 403 for
+   * @param scope - Audience and scopes the token was requested for
+   */
+  async refreshToken(
+    rejectedToken: string,
+    scope?: TokenScope,
+  ): Promise<string | null> {
+    this.lastUsed = Date.now();
+    const resolved = this.resolveScope(scope);
+
+    return this.runExclusive(resolved.key ?? '', () =>
+      this._refreshToken(rejectedToken, resolved),
+    );
+  }
+
+  /**
+   * Runs a token request as the single one in flight for a storage slot
+   *
+   * Token requests that are already running in the slot finish first, so
+   * reads, clears and writes of the slot's token never interleave.
+   */
+  private async runExclusive(
+    slot: string,
+    task: () => Promise<string | null>,
+  ): Promise<string | null> {
+    for (
+      let pending = this.tokenPromises.get(slot);
+      pending;
+      pending = this.tokenPromises.get(slot)
+    ) {
+      await pending.catch(() => undefined);
+    }
+
+    const tokenPromise = task();
+    this.tokenPromises.set(slot, tokenPromise);
+
+    try {
+      const token = await tokenPromise;
+      return token;
+    } finally {
+      this.tokenPromises.delete(slot);
+    }
+  }
+
+  /**
+   * Internal method to replace a rejected token
+   */
+  private async _refreshToken(
+    rejectedToken: string,
+    resolved: ResolvedScope,
+  ): Promise<string | null> {
+    const currentToken = await this.storage.get(resolved.key);
+    if (currentToken === rejectedToken) {
+      if (this.debug) {
+        console.log('[OrbitportSDK] Token rejected by the API, refreshing');
+      }
+      this.stopScheduledRefresh(resolved.key ?? '');
+      await this.storage.clear(resolved.key);
+    }
+
+    return this._getValidToken(resolved);
+  }
+
+  /**
+   * Resolves the audience and scopes of a token request
+   *
+   * Scopes are deduplicated and sorted, so equivalent requests share a
+   * cached token. Only storage that declares supportsKeys can hold tokens
+   * other than the default one.
+   */
+  private resolveScope(scope: TokenScope = {}): ResolvedScope {
+    const defaultAudience = `${this.config.apiUrl}/api`;
+    const audience = scope.audience || defaultAudience;
+    const scopes = Array.from(
+      new Set((scope.scope || '').split(' ').filter(Boolean)),
+    ).sort();
+    const normalized = scopes.length > 0 ? scopes.join(' ') : undefined;
+    const key =
+      audience === defaultAudience && !normalized
+        ? undefined
+        : `${audience}|${normalized || ''}`;
+
+    if (key && !this.storage.supportsKeys) {
+      throw new OrbitportSDKError(
+        'Token storage does not support scoped tokens: set supportsKeys on storage that keeps each key apart',
+        ERROR_CODES.INVALID_CONFIG,
+      );
+    }
+
+    const resolved = { audience, scope: normalized, key };
+    this.scopes.set(key ?? '', resolved);
+    return resolved;
+  }
+
   /**
    * Internal method to get valid token
    */
-  private async _getValidToken(): Promise<string | null> {
+  private async _getValidToken(
+    resolved: ResolvedScope,
+  ): Promise<string | null> {
     try {
       // Try to get existing token from storage
-      const existingToken = await this.storage.get();
+      const existingToken = await this.storage.get(resolved.key);
 
       if (existingToken && !isTokenExpired(existingToken)) {
         if (this.debug) {
           console.log('[OrbitportSDK] Using existing valid token');
         }
+
+        // Resumes a refresh schedule that was paused while idle
+        const expiresAt = getTokenExpiry(existingToken);
+        if (expiresAt !== undefined) {
+          this.scheduleRefresh(expiresAt, resolved);
+        }
         return existingToken;
       }
 
@@ -82,26 +250,22 @@ export class AuthService {
         );
       }
 
-      // Request new token
-      const tokenData = await this.requestNewToken();
-
-      if (!tokenData) {
-        throw new OrbitportSDKError(
-          'Failed to obtain access token',
-          ERROR_CODES.AUTH_FAILED,
-        );
-      }
-
-      // Store the new token
-      await this.storage.set(tokenData.access_token, tokenData.expires_at);
+      const tokenData = await this.obtainToken(resolved);
 
       // Emit token refresh event
       this.emitEvent({
         type: 'token_refresh',
         timestamp: Date.now(),
-        data: { expires_at: tokenData.expires_at },
+        data: {
+          expires_at: tokenData.expires_at,
+          ...(resolved.key && {
+            audience: resolved.audience,
+            scope: tokenData.scope,
+          }),
+        },
       });
 
+      this.scheduleRefresh(tokenData.expires_at, resolved);
       return tokenData.access_token;
     } catch (error) {
       if (this.debug) {
@@ -109,24 +273,247 @@ export class AuthService {
       }
 
       // Clear invalid token from storage
-      await this.storage.clear();
+      await this.storage.clear(resolved.key);
       throw error;
     }
   }
 
   /**
-   * Requests a new access token from the authentication server
+   * Requests a new token and stores it
    */
-  private async requestNewToken(): Promise<TokenData | null> {
-    const authUrl = `${this.config.authUrl}/oauth/token`;
-    const audience = `${this.config.apiUrl}/api`;
+  private async obtainToken(resolved: ResolvedScope): Promise<TokenData> {
+    const tokenData = await this.requestNewToken(resolved);
+
+    if (!tokenData) {
+      throw new OrbitportSDKError(
+        'Failed to obtain access token',
+        ERROR_CODES.AUTH_FAILED,
+      );
+    }
 
-    const requestBody = {
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
-      audience,
-      grant_type: 'client_credentials',
+    await this.storage.set(
+      tokenData.access_token,
+      tokenData.expires_at,
+      resolved.key,
+    );
+    this.grantedScopes.set(resolved.key ?? '', {
+      token: tokenData.access_token,
+      scope: tokenData.scope,
+    });
+    return tokenData;
+  }
+
+  /**
+   * Arms the background refresh for a token expiring at expiresAt
+   *
+   * Does nothing unless tokenRefresh is enabled or while a refresh is armed.
+   * The delay is refreshAt of the remaining lifetime, randomized by jitter so
+   * that many workers sharing credentials do not refresh at once.
+   */
+  private scheduleRefresh(expiresAt: number, resolved: ResolvedScope): void {
+    const options = this.config.tokenRefresh;
+    const slot = resolved.key ?? '';
+    if (!options?.enabled || this.refreshTimers.has(slot)) {
+      return;
+    }
+
+    const { refreshAt = 0.8, jitter = 0.1 } = options;
+    const lifetime = expiresAt * 1000 - Date.now();
+    if (lifetime <= 0) {
+      return;
+    }
+
+    const delay = Math.min(
+      lifetime * refreshAt * (1 + jitter * (2 * Math.random() - 1)),
+      lifetime,
+    );
+    const timer = setTimeout(() => {
+      this.refreshTimers.delete(slot);
+      void this.refreshInBackground(resolved);
+    }, delay);
+    this.refreshTimers.set(slot, timer);
+
+    // A pending refresh must not keep a Node.js process alive
+    (timer as { unref?: () => void }).unref?.();
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Token refresh scheduled in ${Math.round(delay / 1000)}s`,
+      );
+    }
+  }
+
+  /**
+   * Renews the token before it expires, unless the SDK has been idle
+   *
+   * Callers keep using the current token meanwhile. A failed refresh is
+   * retried while the current token is still valid. The refresh runs as the
+   * slot's in-flight token request, like refreshToken.
+   */
+  private async refreshInBackground(resolved: ResolvedScope): Promise<void> {
+    const idleTimeout = this.config.tokenRefresh?.idleTimeout ?? 600000;
+    if (Date.now() - this.lastUsed > idleTimeout) {
+      // The next getValidToken call re-arms the schedule
+      if (this.debug) {
+        console.log('[OrbitportSDK] Token refresh paused while idle');
+      }
+      return;
+    }
+
+    const clearCount = this.clearCount;
+    await this.runExclusive(resolved.key ?? '', () =>
+      clearCount === this.clearCount
+        ? this._refreshInBackground(resolved)
+        : Promise.resolve(null),
+    ).catch(() => undefined);
+  }
+
+  /**
+   * Internal method to renew a token in the background
+   * @returns The new token, or the current one while it is still valid
+   */
+  private async _refreshInBackground(
+    resolved: ResolvedScope,
+  ): Promise<string | null> {
+    try {
+      const tokenData = await this.obtainToken(resolved);
+
+      this.emitEvent({
+        type: 'token_refresh',
+        timestamp: Date.now(),
+        data: {
+          scheduled: true,
+          success: true,
+          expires_at: tokenData.expires_at,
+        },
+      });
+
+      this.scheduleRefresh(tokenData.expires_at, resolved);
+      return tokenData.access_token;
+    } catch (error) {
+      if (this.debug) {
+        console.warn('[OrbitportSDK] Background token refresh failed:', error);
+      }
+
+      this.emitEvent({
+        type: 'token_refresh',
+        timestamp: Date.now(),
+        data: { scheduled: true, success: false, error },
+      });
+
+      const token = await this.storage.get(resolved.key).catch(() => null);
+      const expiresAt =
+        token && !isTokenExpired(token) ? getTokenExpiry(token) : undefined;
+      if (expiresAt === undefined) {
+        throw error;
+      }
+      this.scheduleRefresh(expiresAt, resolved);
+      return token;
+    }
+  }
+
+  /**
+   * Stops the background token refresh
+   *
+   * The schedule is armed again by the next token that is obtained or used.
+   */
+  stopTokenRefresh(): void {
+    for (const slot of Array.from(this.refreshTimers.keys())) {
+      this.stopScheduledRefresh(slot);
+    }
+  }
+
+  /**
+   * Stops the background refresh of one token
+   */
+  private stopScheduledRefresh(slot: string): void {
+    clearTimeout(this.refreshTimers.get(slot));
+    this.refreshTimers.delete(slot);
+  }
+
+  /**
+   * Gets the client credentials from the configured provider or config
+   */
+  private async getCredentials(): Promise<ClientCredentials> {
+    const { credentials, clientId, clientSecret } = this.config;
+
+    if (!credentials) {
+      if (!clientId || !clientSecret) {
+        throw new OrbitportSDKError(
+          'No API credentials configured',
+          ERROR_CODES.INVALID_CONFIG,
+        );
+      }
+      return { clientId, clientSecret };
+    }
+
+    try {
+      return await credentials.getCredentials();
+    } catch (error) {
+      if (error instanceof OrbitportSDKError) {
+        throw error;
+      }
+      throw new OrbitportSDKError(
+        `Failed to load client credentials: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        ERROR_CODES.INVALID_CONFIG,
+        undefined,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Builds the client authentication fields of a token request
+   *
+   * Secrets are sent as client_secret. Private keys sign a single-use JWT
+   * assertion for the token endpoint instead (private_key_jwt).
+   */
+  private async getClientAuthentication(
+    authUrl: string,
+  ): Promise<Record<string, string>> {
+    const credentials = await this.getCredentials();
+
+    if (!('privateKey' in credentials)) {
+      return {
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+      };
+    }
+
+    const { clientId, privateKey, algorithm, keyId } = credentials;
+    const key = await importSigningKey(privateKey, algorithm);
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const assertion = await signJWT(
+      {
+        iss: clientId,
+        sub: clientId,
+        aud: authUrl,
+        jti: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16))),
+        iat: issuedAt,
+        exp: issuedAt + CLIENT_ASSERTION_LIFETIME,
+      },
+      key,
+      algorithm,
+      keyId,
+    );
+
+    return {
+      client_id: clientId,
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      client_assertion: assertion,
     };
+  }
+
+  /**
+   * Requests a new access token from the authentication server
+   */
+  private async requestNewToken(
+    resolved: ResolvedScope,
+  ): Promise<TokenData | null> {
+    const authUrl = `${this.config.authUrl}/oauth/token`;
+    const { audience, scope } = resolved;
 
     if (this.debug) {
       console.log('[OrbitportSDK] Requesting token from:', authUrl);
@@ -135,6 +522,14 @@ export class AuthService {
     try {
       const response = await withRetry(
         async() => {
+          // Client assertions are single use, so every attempt signs anew
+          const requestBody = {
+            ...(await this.getClientAuthentication(authUrl)),
+            audience,
+            ...(scope && { scope }),
+            grant_type: 'client_credentials',
+          };
+
           const controller = new AbortController();
           const timeoutId = setTimeout(
             () => controller.abort(),
@@ -199,6 +594,8 @@ export class AuthService {
         access_token: tokenResponse.access_token,
         expires_at: expiresAt,
         token_type: tokenResponse.token_type || 'Bearer',
+        // An omitted scope means the requested scopes were granted (RFC 6749)
+        scope: tokenResponse.scope ?? scope,
       };
     } catch (error) {
       if (error instanceof OrbitportSDKError) {
@@ -226,10 +623,27 @@ export class AuthService {
   }
 
   /**
-   * Clears the stored token
+   * Clears the stored token, including tokens requested for other scopes
+   *
+   * Token requests already in flight finish first, so none of them writes
+   * its token back after the clear.
    */
   async clearToken(): Promise<void> {
+    this.clearCount++;
+    await Promise.all(
+      Array.from(this.tokenPromises.values(), (pending) =>
+        pending.catch(() => undefined),
+      ),
+    );
+
+    this.stopTokenRefresh();
     await this.storage.clear();
+    for (const { key } of Array.from(this.scopes.values())) {
+      if (key) {
+        await this.storage.clear(key);
+      }
+    }
+    this.grantedScopes.clear();
 
     this.emitEvent({
       type: 'token_refresh',
@@ -240,10 +654,11 @@ export class AuthService {
 
   /**
    * Checks if the current token is valid
+   * @param scope - Audience and scopes of the token to check
    */
-  async isTokenValid(): Promise<boolean> {
+  async isTokenValid(scope?: TokenScope): Promise<boolean> {
     try {
-      const token = await this.storage.get();
+      const token = await this.storage.get(this.resolveScope(scope).key);
       return token !== null && !isTokenExpired(token);
     } catch {
       return false;
@@ -252,10 +667,12 @@ export class AuthService {
 
   /**
    * Gets token information without refreshing
+   * @param scope - Audience and scopes of the token to describe
    */
-  async getTokenInfo(): Promise<{ valid: boolean; expiresAt?: number }> {
+  async getTokenInfo(scope?: TokenScope): Promise<TokenInfo> {
     try {
-      const token = await this.storage.get();
+      const resolved = this.resolveScope(scope);
+      const token = await this.storage.get(resolved.key);
       if (!token) {
         return { valid: false };
       }
@@ -264,14 +681,26 @@ export class AuthService {
         return { valid: false };
       }
 
+      // Scopes from the token response, else from the token's claims
+      const granted = this.grantedScopes.get(resolved.key ?? '');
+      const scopes =
+        granted?.token === token
+          ? granted.scope?.split(' ').filter(Boolean)
+          : getTokenScopes(token);
+      const info: TokenInfo = {
+        valid: true,
+        audience: resolved.audience,
+        ...(scopes && { scopes }),
+      };
+
       // Parse token to get expiration
       const parts = token.split('.');
       if (parts.length >= 2) {
         const payload = JSON.parse(atob(parts[1]));
-        return { valid: true, expiresAt: payload.exp };
+        return { ...info, expiresAt: payload.exp };
       }
 
-      return { valid: true };
+      return info;
     } catch {
       return { valid: false };
     }
@@ -297,6 +726,10 @@ export class AuthService {
    */
   updateConfig(newConfig: Partial<OrbitportConfig>): void {
     this.config = { ...this.config, ...newConfig };
+
+    if (!this.config.tokenRefresh?.enabled) {
+      this.stopTokenRefresh();
+    }
   }
 
   /**
@@ -0,0 +1,194 @@
+/**
+ * Watcher that polls a beacon and emits new blocks as they are published
+ */
+
+import type { BeaconData, BeaconWatchOptions } from '../types';
+import type { BeaconService } from './beacon';
+
+type BeaconListener = (beacon: BeaconData) => void;
+type ErrorListener = (error: Error) => void;
+
+/**
+ * Polls an IPNS beacon head and emits every new block exactly once, in
+ * sequence order
+ *
+ * Blocks skipped between two polls are filled in by following `previous`
+ * links back to the last emitted sequence. Poll failures are reported to
+ * `error` listeners and polling continues on the next interval.
+ */
+export class BeaconWatcher implements AsyncIterable<BeaconData> {
+  private readonly service: BeaconService;
+  private readonly path: string;
+  private readonly options: BeaconWatchOptions;
+  private readonly debug: boolean;
+  private beaconListeners = new Set<BeaconListener>();
+  private errorListeners = new Set<ErrorListener>();
+  private stopListeners = new Set<() => void>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private lastSequence: number | null = null;
+  private active = true;
+
+  constructor(
+    service: BeaconService,
+    path: string,
+    options: BeaconWatchOptions = {},
+    debug: boolean = false,
+  ) {
+    this.service = service;
+    this.path = path;
+    this.options = options;
+    this.debug = debug;
+
+    // First poll runs after the caller has attached its listeners
+    this.timer = setTimeout(() => this.poll(), 0);
+  }
+
+  /**
+   * Whether the watcher is still polling
+   */
+  get running(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Registers a listener for new beacon blocks or poll errors
+   */
+  on(event: 'beacon', listener: BeaconListener): this;
+  on(event: 'error', listener: ErrorListener): this;
+  on(event: 'beacon' | 'error', listener: BeaconListener | ErrorListener) {
+    if (event === 'beacon') {
+      this.beaconListeners.add(listener as BeaconListener);
+    } else {
+      this.errorListeners.add(listener as ErrorListener);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a listener registered with `on`
+   */
+  off(event: 'beacon', listener: BeaconListener): this;
+  off(event: 'error', listener: ErrorListener): this;
+  off(event: 'beacon' | 'error', listener: BeaconListener | ErrorListener) {
+    if (event === 'beacon') {
+      this.beaconListeners.delete(listener as BeaconListener);
+    } else {
+      this.errorListeners.delete(listener as ErrorListener);
+    }
+    return this;
+  }
+
+  /**
+   * Stops polling and ends any active iterators
+   */
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    clearTimeout(this.timer);
+    this.stopListeners.forEach((listener) => listener());
+
+    if (this.debug) {
+      console.log(`[OrbitportSDK] Stopped watching ${this.path}`);
+    }
+  }
+
+  /**
+   * Iterates over new blocks from the moment the iterator is created
+   *
+   * Leaving a `for await` loop early stops the watcher.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<BeaconData> {
+    const queue: BeaconData[] = [];
+    let waiting: ((result: IteratorResult<BeaconData>) => void) | null = null;
+
+    const onBeacon: BeaconListener = (beacon) => {
+      if (waiting) {
+        waiting({ value: beacon, done: false });
+        waiting = null;
+      } else {
+        queue.push(beacon);
+      }
+    };
+    const onStop = () => {
+      waiting?.({ value: undefined, done: true });
+      waiting = null;
+    };
+
+    this.beaconListeners.add(onBeacon);
+    this.stopListeners.add(onStop);
+
+    return {
+      next: async() => {
+        const queued = queue.shift();
+        if (queued) {
+          return { value: queued, done: false };
+        }
+        if (!this.active) {
+          return { value: undefined, done: true };
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: async() => {
+        this.beaconListeners.delete(onBeacon);
+        this.stopListeners.delete(onStop);
+        this.stop();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  /**
+   * Reads the head, fills in skipped blocks and emits them in order
+   */
+  private async poll(): Promise<void> {
+    const { interval = 10000, ...historyOptions } = this.options;
+
+    try {
+      const blocks: BeaconData[] = [];
+      for await (const beacon of this.service.history({
+        ...historyOptions,
+        path: this.path,
+        ...(this.lastSequence === null
+          ? { limit: 1 }
+          : { untilSequence: this.lastSequence + 1 }),
+      })) {
+        if (!this.active) {
+          return;
+        }
+        blocks.push(beacon);
+      }
+
+      for (const beacon of blocks.reverse()) {
+        if (
+          !this.active ||
+          (this.lastSequence !== null && beacon.sequence <= this.lastSequence)
+        ) {
+          continue;
+        }
+
+        if (this.debug) {
+          console.log(`[OrbitportSDK] New beacon block ${beacon.sequence}`);
+        }
+
+        this.lastSequence = beacon.sequence;
+        this.beaconListeners.forEach((listener) => listener(beacon));
+      }
+    } catch (error) {
+      if (this.debug) {
+        console.warn('[OrbitportSDK] Beacon poll failed:', error);
+      }
+      const pollError =
+        error instanceof Error ? error : new Error(String(error));
+      this.errorListeners.forEach((listener) => listener(pollError));
+    }
+
+    if (this.active) {
+      this.timer = setTimeout(() => this.poll(), interval);
+    }
+  }
+}
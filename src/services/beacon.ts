@@ -3,6 +3,7 @@
  */
 
 import type {
+  BeaconBlockCache,
   BeaconData,
   IPFSSource,
   BeaconComparison,
@@ -11,9 +12,54 @@ import type {
   ServiceResult,
   ResponseMetadata,
   RequestOptions,
+  ChainVerificationReport,
+  BeaconHistoryOptions,
+  BeaconAtOptions,
+  BeaconWatchOptions,
+  BeaconQuorum,
+  IPFSNode,
+  QuorumVote,
+  NodeHealth,
 } from '../types';
-import { OrbitportSDKError, ERROR_CODES } from '../utils/errors';
+import {
+  OrbitportSDKError,
+  ERROR_CODES,
+  createValidationError,
+} from '../utils/errors';
 import { withRetry, RETRY_STRATEGIES } from '../utils/retry';
+import { validateHistoryOptions } from '../utils/validation';
+import { NodeHealthTracker, getNodeSource } from '../utils/node-health';
+import {
+  decodeBlockContent,
+  formatCID,
+  getPathCID,
+  parseCID,
+  verifyBlock,
+} from '../utils/cid';
+import {
+  CARFile,
+  parseCAR,
+  readCARContent,
+  resolveCARPath,
+  verifyCAR,
+} from '../utils/car';
+import { verifyIPNSRecord } from '../utils/ipns';
+import { BeaconWatcher } from './beacon-watcher';
+
+/**
+ * A block read during chain verification
+ */
+interface ChainBlock {
+  beacon: BeaconData;
+  comparison: BeaconComparison | null;
+}
+
+/**
+ * Source type a node is read as; trustless CAR gateways serve gateway reads
+ */
+function getSourceType(node: Pick<IPFSNode, 'type'>): 'gateway' | 'api' {
+  return node.type === 'api' ? 'api' : 'gateway';
+}
 
 /**
  * IPFS service class for beacon data access
@@ -22,6 +68,8 @@ export class BeaconService {
   private config: IPFSConfig;
   private gateway: string;
   private debug: boolean;
+  private health: NodeHealthTracker;
+  private ipnsSequences = new Map<string, number>();
 
   constructor(config: IPFSConfig = {}, debug: boolean = false) {
     this.config = {
@@ -29,10 +77,12 @@ export class BeaconService {
       apiUrl: 'https://ipfs.io',
       timeout: 30000,
       enableFallback: true,
+      verifyIntegrity: true,
       ...config,
     };
     this.gateway = this.config.gateway!;
     this.debug = debug;
+    this.health = new NodeHealthTracker(this.config.nodeCooldown);
 
     if (this.debug) {
       console.log('[OrbitportSDK] IPFS service initialized with config:', {
@@ -54,15 +104,21 @@ export class BeaconService {
 
   /**
    * Reads beacon data from IPFS gateway
+   *
+   * Immutable /ipfs/<cid> paths are fetched as raw blocks and hash-checked
+   * against the CID before decoding, so an untrusted gateway cannot alter them.
    * @param path - IPFS/IPNS path
    * @param timeout - Request timeout
+   * @param gateway - Gateway base URL
    * @returns Promise resolving to beacon data
    */
   private async readViaGateway(
     path: string,
     _timeout: number = this.config.timeout!,
+    gateway: string = this.gateway,
   ): Promise<IPFSSource> {
-    const url = `${this.gateway}${path}`;
+    const cid = this.config.verifyIntegrity ? getPathCID(path) : null;
+    const url = cid ? `${gateway}${path}?format=raw` : `${gateway}${path}`;
 
     if (this.debug) {
       console.log('[OrbitportSDK] Reading from gateway:', url);
@@ -74,21 +130,28 @@ export class BeaconService {
 
       try {
         const response = await fetch(url, {
-          headers: { 'Cache-Control': 'no-cache' },
+          headers: {
+            'Cache-Control': 'no-cache',
+            ...(cid && { Accept: 'application/vnd.ipld.raw' }),
+          },
           signal: controller.signal,
         });
 
         clearTimeout(timeoutId);
 
         if (!response.ok) {
-          throw new Error(
-            `Gateway ${this.gateway} returned ${response.status}`,
-          );
+          throw new Error(`Gateway ${gateway} returned ${response.status}`);
         }
 
-        const text = await response.text();
+        const text = cid
+          ? await this.verifyGatewayBlock(
+            cid,
+            new Uint8Array(await response.arrayBuffer()),
+            gateway,
+          )
+          : await response.text();
         return {
-          source: `gateway:${this.gateway}`,
+          source: `gateway:${gateway}`,
           text,
         };
       } catch (error) {
@@ -97,9 +160,153 @@ export class BeaconService {
       }
     } catch (error) {
       return {
-        source: `gateway:${this.gateway}`,
+        source: `gateway:${gateway}`,
+        error: error instanceof Error ? error.message : 'Unknown gateway error',
+        ...(error instanceof OrbitportSDKError && { code: error.code }),
+      };
+    }
+  }
+
+  /**
+   * Verifies a raw block returned by a gateway against its CID
+   * @param cid - CID the block was requested by
+   * @param block - Raw block bytes
+   * @param gateway - Gateway the block came from
+   * @returns Decoded file content as text
+   */
+  private async verifyGatewayBlock(
+    cid: string,
+    block: Uint8Array,
+    gateway: string,
+  ): Promise<string> {
+    const parsed = parseCID(cid);
+
+    if (!(await verifyBlock(parsed, block))) {
+      throw new OrbitportSDKError(
+        `Integrity check failed: block from ${gateway} does not match ${cid}`,
+        ERROR_CODES.INTEGRITY_ERROR,
+      );
+    }
+
+    if (this.debug) {
+      console.log(`[OrbitportSDK] ✓ Verified block ${cid}`);
+    }
+
+    return new TextDecoder().decode(decodeBlockContent(parsed, block));
+  }
+
+  /**
+   * Reads beacon data from a trustless gateway as a CAR file
+   *
+   * Every block in the archive is hash-checked against its CID, and for
+   * /ipfs/ paths the archive root must be the requested CID, so neither the
+   * gateway nor the network can alter the result. The requested block and
+   * the blocks its `previous` links reach in the archive are added to the
+   * block cache.
+   * @param path - IPFS/IPNS path
+   * @param timeout - Request timeout
+   * @param gateway - Trustless gateway base URL
+   * @returns Promise resolving to beacon data
+   */
+  private async readViaCar(
+    path: string,
+    _timeout: number = this.config.timeout!,
+    gateway: string = this.gateway,
+  ): Promise<IPFSSource> {
+    const url = `${gateway}${path}?format=car`;
+
+    if (this.debug) {
+      console.log('[OrbitportSDK] Reading CAR from gateway:', url);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), _timeout);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'Cache-Control': 'no-cache',
+          Accept: 'application/vnd.ipld.car',
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Gateway ${gateway} returned ${response.status}`);
+      }
+
+      const car = parseCAR(new Uint8Array(await response.arrayBuffer()));
+      await verifyCAR(car);
+
+      const [, namespace, name, ...segments] = path.split('/');
+      const root =
+        namespace === 'ipfs' ? formatCID(parseCID(name)) : car.roots[0];
+      if (!car.roots.includes(root)) {
+        throw new OrbitportSDKError(
+          `Integrity check failed: CAR from ${gateway} is not rooted at ${name}`,
+          ERROR_CODES.INTEGRITY_ERROR,
+        );
+      }
+
+      if (this.debug) {
+        console.log(
+          `[OrbitportSDK] ✓ Verified ${car.blocks.size} CAR block(s) from ${gateway}`,
+        );
+      }
+
+      const target = resolveCARPath(
+        car,
+        root,
+        segments.filter((segment) => segment),
+      );
+      await this.cacheCarBeacons(car, target);
+
+      return {
+        source: `car:${gateway}`,
+        text: new TextDecoder().decode(readCARContent(car, target)),
+      };
+    } catch (error) {
+      return {
+        source: `car:${gateway}`,
         error: error instanceof Error ? error.message : 'Unknown gateway error',
+        ...(error instanceof OrbitportSDKError && { code: error.code }),
       };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Adds the requested beacon block of a verified CAR file to the block
+   * cache, followed by the blocks its `previous` links reach in the archive
+   *
+   * Other blocks are ignored: each one is only checked against its own CID,
+   * so a gateway could add valid but unrelated blocks to the archive.
+   * @param car - Verified CAR file
+   * @param target - CID of the requested block
+   */
+  private async cacheCarBeacons(car: CARFile, target: string): Promise<void> {
+    const cache = this.config.blockCache;
+    let cid: string | null = target;
+
+    while (cache && cid && car.blocks.has(cid)) {
+      let beacon: BeaconData;
+      try {
+        beacon = this.parseBeacon(
+          new TextDecoder().decode(readCARContent(car, cid)),
+        );
+      } catch (_error) {
+        // Not a beacon, e.g. a directory or a file missing some of its chunks
+        return;
+      }
+      await cache.set(cid, beacon);
+
+      const previous = beacon.previous && getPathCID(beacon.previous);
+      try {
+        cid = previous ? formatCID(parseCID(previous)) : null;
+      } catch (_error) {
+        cid = null;
+      }
     }
   }
 
@@ -107,15 +314,17 @@ export class BeaconService {
    * Reads beacon data from IPFS API
    * @param path - IPFS/IPNS path
    * @param timeout - Request timeout
+   * @param apiUrl - IPFS API base URL
    * @returns Promise resolving to beacon data
    */
   private async readViaApi(
     path: string,
     _timeout: number = this.config.timeout!,
+    apiUrl: string | undefined = this.config.apiUrl,
   ): Promise<IPFSSource> {
-    if (!this.config.apiUrl) {
+    if (!apiUrl) {
       return {
-        source: `api:${this.config.apiUrl}`,
+        source: `api:${apiUrl}`,
         error: 'IPFS API URL not configured',
       };
     }
@@ -124,20 +333,24 @@ export class BeaconService {
       console.log('[OrbitportSDK] Reading from API:', path);
     }
 
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), _timeout);
+
     try {
       let effective = path;
 
       // Resolve IPNS to IPFS path if needed
       if (path.startsWith('/ipns/')) {
-        const resolveUrl = `${
-          this.config.apiUrl
-        }/api/v0/name/resolve?arg=${encodeURIComponent(path)}`;
+        const resolveUrl = `${apiUrl}/api/v0/name/resolve?arg=${encodeURIComponent(
+          path,
+        )}`;
         const resolveResponse = await fetch(resolveUrl, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
             'Cache-Control': 'no-cache',
           },
+          signal: controller.signal,
         });
 
         if (!resolveResponse.ok) {
@@ -152,7 +365,7 @@ export class BeaconService {
       }
 
       // Read content from IPFS using direct HTTP call
-      const catUrl = `${this.config.apiUrl}/api/v0/cat?arg=${encodeURIComponent(
+      const catUrl = `${apiUrl}/api/v0/cat?arg=${encodeURIComponent(
         effective,
       )}`;
       const response = await fetch(catUrl, {
@@ -161,6 +374,7 @@ export class BeaconService {
           'Content-Type': 'application/json',
           'Cache-Control': 'no-cache',
         },
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -169,14 +383,16 @@ export class BeaconService {
 
       const text = await response.text();
       return {
-        source: `api:${this.config.apiUrl}`,
+        source: `api:${apiUrl}`,
         text,
       };
     } catch (error) {
       return {
-        source: `api:${this.config.apiUrl}`,
+        source: `api:${apiUrl}`,
         error: error instanceof Error ? error.message : 'Unknown API error',
       };
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
@@ -258,11 +474,38 @@ export class BeaconService {
     };
   }
 
+  /**
+   * Lists the nodes to read from: the configured gateway and API followed by
+   * any custom nodes, ordered by ascending priority (default 0) and then by
+   * descending health score
+   * @returns Ordered node list
+   */
+  private getNodes(): IPFSNode[] {
+    const nodes: IPFSNode[] = [
+      { url: this.gateway, type: 'gateway' },
+      { url: this.config.apiUrl || '', type: 'api' },
+      ...(this.config.customNodes || []),
+    ];
+
+    return nodes
+      .filter(
+        (node, index) =>
+          nodes.findIndex((n) => n.url === node.url && n.type === node.type) ===
+          index,
+      )
+      .map((node) => ({ node, score: this.health.getHealth(node).score }))
+      .sort(
+        (a, b) =>
+          (a.node.priority || 0) - (b.node.priority || 0) || b.score - a.score,
+      )
+      .map(({ node }) => node);
+  }
+
   /**
    * Reads beacon data from multiple sources
    * @param path - IPFS/IPNS path
    * @param sources - Sources to read from
-   * @param timeout - Request timeout
+   * @param timeout - Request timeout, unless a node sets its own
    * @returns Promise resolving to beacon data from all sources
    */
   private async readFromSources(
@@ -270,17 +513,227 @@ export class BeaconService {
     sources: ('gateway' | 'api')[] = ['gateway', 'api'],
     timeout: number = this.config.timeout!,
   ): Promise<IPFSSource[]> {
-    const tasks: Promise<IPFSSource>[] = [];
+    const nodes = this.getNodes().filter((node) =>
+      sources.includes(getSourceType(node)),
+    );
+
+    // Skip nodes in cool-down, unless that would leave nothing to read.
+    // Skipped nodes are still reported, as failures, so that they count
+    // against a quorum instead of shrinking it
+    const available = nodes.filter(
+      (node) => !this.health.isCoolingDown(getNodeSource(node)),
+    );
+    const reading = available.length > 0 ? available : nodes;
+    if (this.debug && reading.length < nodes.length) {
+      console.log(
+        `[OrbitportSDK] Skipping ${nodes.length - reading.length} unhealthy node(s)`,
+      );
+    }
+
+    const tasks = nodes.map(async(node): Promise<IPFSSource> => {
+      if (!reading.includes(node)) {
+        return {
+          source: getNodeSource(node),
+          error: 'Node skipped while cooling down',
+        };
+      }
+
+      const started = Date.now();
+      const result = await this.readFromNode(
+        node,
+        path,
+        node.timeout || timeout,
+      );
+      const latency = Date.now() - started;
+
+      if (result.error) {
+        this.health.recordFailure(
+          result.source,
+          latency,
+          result.code === ERROR_CODES.INTEGRITY_ERROR,
+        );
+      } else {
+        this.health.recordSuccess(result.source, latency);
+      }
+      return result;
+    });
+
+    return Promise.all(tasks);
+  }
+
+  /**
+   * Reads a path from a single node, first resolving IPNS names through
+   * validated records when `verifyIPNS` is enabled
+   * @param node - Node to read from
+   * @param path - IPFS/IPNS path
+   * @param timeout - Request timeout
+   * @returns Promise resolving to beacon data
+   */
+  private async readFromNode(
+    node: IPFSNode,
+    path: string,
+    timeout: number,
+  ): Promise<IPFSSource> {
+    let target = path;
 
-    if (sources.includes('gateway')) {
-      tasks.push(this.readViaGateway(path, timeout));
+    if (this.config.verifyIPNS && path.startsWith('/ipns/') && node.url) {
+      try {
+        target = await this.resolveIPNSRecord(path, node, timeout);
+      } catch (error) {
+        return {
+          source: getNodeSource(node),
+          error: error instanceof Error ? error.message : 'Unknown IPNS error',
+          ...(error instanceof OrbitportSDKError && { code: error.code }),
+        };
+      }
     }
 
-    if (sources.includes('api')) {
-      tasks.push(this.readViaApi(path, timeout));
+    let result: IPFSSource;
+    switch (node.type) {
+    case 'gateway':
+      result = await this.readViaGateway(target, timeout, node.url);
+      break;
+    case 'car':
+      result = await this.readViaCar(target, timeout, node.url);
+      break;
+    default:
+      result = await this.readViaApi(target, timeout, node.url || undefined);
     }
+    return target === path ? result : { ...result, path: target };
+  }
 
-    return Promise.all(tasks);
+  /**
+   * Fetches and validates the IPNS record behind a path
+   *
+   * API nodes are asked via `/api/v0/routing/get` and gateways for an
+   * `application/vnd.ipfs.ipns-record` response. A record's sequence may
+   * never fall below one already accepted for the name, so no node can roll
+   * the beacon back to an older head.
+   *
+   * Two limits apply. The record's TTL is not used: every read fetches and
+   * verifies a fresh record. The highest accepted sequence is only kept in
+   * memory, per BeaconService, so after a restart the first record accepted
+   * may be older than one seen before.
+   * @param path - /ipns/ path
+   * @param node - Node to fetch the record from
+   * @param timeout - Request timeout
+   * @returns The /ipfs/ path the name points at, with any subpath appended
+   */
+  private async resolveIPNSRecord(
+    path: string,
+    node: IPFSNode,
+    timeout: number,
+  ): Promise<string> {
+    const [, , name, ...rest] = path.split('/');
+    const isApi = node.type === 'api';
+    const url = isApi
+      ? `${node.url}/api/v0/routing/get?arg=${encodeURIComponent(`/ipns/${name}`)}`
+      : `${node.url}/ipns/${name}?format=ipns-record`;
+
+    if (this.debug) {
+      console.log('[OrbitportSDK] Fetching IPNS record:', url);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        ...(isApi && { method: 'POST' }),
+        headers: {
+          'Cache-Control': 'no-cache',
+          ...(!isApi && { Accept: 'application/vnd.ipfs.ipns-record' }),
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`IPNS record request failed: ${response.status}`);
+      }
+
+      const record = await verifyIPNSRecord(
+        name,
+        new Uint8Array(await response.arrayBuffer()),
+      );
+
+      const latest = this.ipnsSequences.get(name);
+      if (latest !== undefined && record.sequence < latest) {
+        throw new OrbitportSDKError(
+          `IPNS record rejected: sequence ${record.sequence} from ${node.url} is older than ${latest}`,
+          ERROR_CODES.INTEGRITY_ERROR,
+        );
+      }
+      if (!record.value.startsWith('/ipfs/')) {
+        throw new OrbitportSDKError(
+          `IPNS record points at unsupported path ${record.value}`,
+          ERROR_CODES.INVALID_RESPONSE,
+        );
+      }
+      this.ipnsSequences.set(name, record.sequence);
+
+      if (this.debug) {
+        console.log(
+          `[OrbitportSDK] ✓ Verified IPNS record ${record.sequence} for ${name}: ${record.value} (ttl ${record.ttl}ms)`,
+        );
+      }
+
+      return [record.value.replace(/\/$/, ''), ...rest].join('/');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Tallies node answers by (sequence, previous)
+   *
+   * The largest group of agreeing nodes wins, with ties going to the group
+   * holding the highest-priority node. Failed or unparseable reads, and
+   * nodes skipped while cooling down, count as votes against.
+   * @param sourcesData - Raw answers from every configured node
+   * @param parsedData - Successfully parsed answers
+   * @returns Quorum result
+   */
+  private computeQuorum(
+    sourcesData: IPFSSource[],
+    parsedData: { source: string; data: BeaconData }[],
+  ): BeaconQuorum {
+    const threshold =
+      this.config.quorum || Math.floor(sourcesData.length / 2) + 1;
+    const votes: QuorumVote[] = sourcesData.map((source) => {
+      const parsed = parsedData.find((p) => p.source === source.source);
+      return parsed
+        ? {
+          source: source.source,
+          sequence: parsed.data.sequence,
+          previous: parsed.data.previous,
+        }
+        : {
+          source: source.source,
+          error: source.error || 'Invalid beacon data',
+        };
+    });
+
+    const groups = new Map<string, BeaconData[]>();
+    for (const { data } of parsedData) {
+      const key = `${data.sequence}|${data.previous || ''}`;
+      groups.set(key, [...(groups.get(key) || []), data]);
+    }
+
+    // Map order follows node priority, so the first largest group wins ties
+    let winner: BeaconData[] = [];
+    for (const group of groups.values()) {
+      if (group.length > winner.length) {
+        winner = group;
+      }
+    }
+
+    return {
+      beacon: winner.length >= threshold ? winner[0] : null,
+      reached: winner.length >= threshold,
+      threshold,
+      agreeing: winner.length,
+      votes,
+    };
   }
 
   /**
@@ -293,7 +746,12 @@ export class BeaconService {
     request: IPFSBeaconRequest,
     options: RequestOptions = {},
   ): Promise<ServiceResult<BeaconData | BeaconComparison>> {
-    const { path, sources = ['both'], enableComparison = false } = request;
+    const {
+      path,
+      sources = ['both'],
+      enableComparison = false,
+      useCache = true,
+    } = request;
     const requestOptions = {
       timeout: options.timeout || this.config.timeout!,
       retries: options.retries || 3,
@@ -310,8 +768,27 @@ export class BeaconService {
       console.log('[OrbitportSDK] Getting beacon data for path:', path);
     }
 
+    // Only immutable /ipfs/ blocks are cached; IPNS heads are always fetched
+    const pathCID = getPathCID(path);
+    const cid = useCache ? pathCID : null;
+    const cache = this.config.blockCache;
+
+    if (cache && cid) {
+      const cached = await cache.get(cid);
+      if (cached) {
+        if (this.debug) {
+          console.log(`[OrbitportSDK] Using cached block ${cid}`);
+        }
+        return {
+          data: cached,
+          metadata: { timestamp: Date.now(), cid, sources: ['cache'] },
+          success: true,
+        };
+      }
+    }
+
     try {
-      const result = await withRetry(
+      const { result, parsed, quorum } = await withRetry(
         async() => {
           const sourceList = sources.includes('both')
             ? (['gateway', 'api'] as ('gateway' | 'api')[])
@@ -322,9 +799,30 @@ export class BeaconService {
             requestOptions.timeout,
           );
 
+          const tampered = sources_data.filter(
+            (s) => s.code === ERROR_CODES.INTEGRITY_ERROR,
+          );
+          const throwTampered = () => {
+            throw new OrbitportSDKError(
+              tampered.map((e) => e.error).join(', '),
+              ERROR_CODES.INTEGRITY_ERROR,
+              undefined,
+              tampered,
+            );
+          };
+
+          // Tampered data is never retried or silently skipped; it is only
+          // outvoted by a quorum of other nodes when comparing sources
+          if (tampered.length > 0 && !enableComparison) {
+            throwTampered();
+          }
+
           // Check for errors
           const errors = sources_data.filter((s) => s.error);
           if (errors.length === sources_data.length) {
+            if (tampered.length > 0) {
+              throwTampered();
+            }
             throw new OrbitportSDKError(
               `All sources failed: ${errors.map((e) => e.error).join(', ')}`,
               ERROR_CODES.NETWORK_ERROR,
@@ -332,12 +830,27 @@ export class BeaconService {
           }
 
           // Parse successful sources
-          const parsedData: { source: string; data: BeaconData }[] = [];
+          const parsedData: {
+            source: string;
+            data: BeaconData;
+            path: string;
+          }[] = [];
           for (const source of sources_data) {
             if (source.text) {
               try {
                 const data = this.parseBeacon(source.text);
-                parsedData.push({ source: source.source, data });
+                parsedData.push({
+                  source: source.source,
+                  data,
+                  path: source.path || path,
+                });
+                if (path.startsWith('/ipns/')) {
+                  this.health.recordSequence(
+                    source.source,
+                    path,
+                    data.sequence,
+                  );
+                }
               } catch (error) {
                 if (this.debug) {
                   console.warn(
@@ -349,6 +862,13 @@ export class BeaconService {
             }
           }
 
+          const quorum = enableComparison
+            ? this.computeQuorum(sources_data, parsedData)
+            : null;
+          if (tampered.length > 0 && !quorum?.reached) {
+            throwTampered();
+          }
+
           if (parsedData.length === 0) {
             throw new OrbitportSDKError(
               'No valid beacon data found from any source',
@@ -357,16 +877,21 @@ export class BeaconService {
           }
 
           // Return single result or comparison
-          if (enableComparison && parsedData.length >= 2) {
+          if (quorum && parsedData.length >= 2) {
             const gateway =
-              parsedData.find((p) => p.source.includes('gateway'))?.data ||
+              parsedData.find((p) => !p.source.startsWith('api:'))?.data ||
               null;
             const api =
-              parsedData.find((p) => p.source.includes('api'))?.data || null;
-            return this.compareBeaconData(gateway, api);
+              parsedData.find((p) => p.source.startsWith('api:'))?.data ||
+              null;
+            return {
+              result: { ...this.compareBeaconData(gateway, api), quorum },
+              parsed: parsedData,
+              quorum,
+            };
           } else {
             // Return the first successful result
-            return parsedData[0].data;
+            return { result: parsedData[0].data, parsed: parsedData, quorum };
           }
         },
         {
@@ -383,8 +908,32 @@ export class BeaconService {
         },
       );
 
+      // Blocks the sources disagree on are not cached
+      if (cache && cid) {
+        if ('sequence' in result) {
+          await cache.set(cid, result);
+        } else if (result.match && result.gateway) {
+          await cache.set(cid, result.gateway);
+        }
+      }
+
+      // Record which nodes returned the block and its CID, when every one
+      // of them read the same /ipfs/ path
+      const block =
+        'sequence' in result ? result : result.gateway || result.api!;
+      const agreeing = parsed.filter(
+        (p) =>
+          p.data.sequence === block.sequence &&
+          p.data.previous === block.previous,
+      );
+      const cids = new Set(agreeing.map((p) => getPathCID(p.path)));
+      const blockCID = pathCID || (cids.size === 1 ? [...cids][0] : null);
+
       const metadata: ResponseMetadata = {
         timestamp: Date.now(),
+        ...(blockCID && { cid: blockCID }),
+        sources: agreeing.map((p) => p.source),
+        ...(quorum && { quorum }),
       };
 
       return {
@@ -421,34 +970,71 @@ export class BeaconService {
       );
     }
 
-    // Try gateway first, then API as fallback
+    // Try the healthiest source type first, then the other as fallback
+    const [primary, secondary] = this.getSourceOrder();
     try {
       const result = await this.getBeacon(
-        { path, sources: ['gateway'] },
+        { path, sources: [primary] },
         options,
       );
       if ('sequence' in result.data) {
         return result as ServiceResult<BeaconData>;
       }
       throw new OrbitportSDKError(
-        'Unexpected response type from gateway',
+        `Unexpected response type from ${primary}`,
         ERROR_CODES.INVALID_RESPONSE,
       );
     } catch (_error) {
       if (this.debug) {
-        console.log('[OrbitportSDK] Gateway failed, trying API fallback');
+        console.log(
+          `[OrbitportSDK] ${primary === 'gateway' ? 'Gateway' : 'API'} failed, trying ${secondary} fallback`,
+        );
       }
-      const result = await this.getBeacon({ path, sources: ['api'] }, options);
+      const result = await this.getBeacon(
+        { path, sources: [secondary] },
+        options,
+      );
       if ('sequence' in result.data) {
         return result as ServiceResult<BeaconData>;
       }
       throw new OrbitportSDKError(
-        'Unexpected response type from API',
+        `Unexpected response type from ${secondary}`,
         ERROR_CODES.INVALID_RESPONSE,
       );
     }
   }
 
+  /**
+   * Orders source types by the health of their best available node,
+   * preferring the gateway when they are equal
+   * @returns Source types, healthiest first
+   */
+  private getSourceOrder(): ['gateway', 'api'] | ['api', 'gateway'] {
+    const best = (type: 'gateway' | 'api') =>
+      Math.max(
+        -1,
+        ...this.getNodeHealth()
+          .filter((node) => getSourceType(node) === type && !node.coolingDown)
+          .map((node) => node.score),
+      );
+
+    return best('api') > best('gateway') ? ['api', 'gateway'] : ['gateway', 'api'];
+  }
+
+  /**
+   * Gets health statistics for every configured node
+   *
+   * Nodes are listed in the order reads prefer them. Nodes that failed
+   * repeatedly are reported as cooling down and are skipped by reads until
+   * the cool-down ends.
+   * @returns Health report per node
+   */
+  getNodeHealth(): NodeHealth[] {
+    return this.getNodes()
+      .filter((node) => node.url)
+      .map((node) => this.health.getHealth(node));
+  }
+
   /**
    * Gets beacon data with block traversal
    * @param request - Beacon request parameters with block traversal
@@ -508,10 +1094,40 @@ export class BeaconService {
 
     // Traverse back through the chain
     let targetBeacon = currentBeacon;
+    let targetMetadata = latestResult.metadata;
     let traversedBlocks = 0;
     const maxTraversal = currentSequence - block;
 
-    while (traversedBlocks < maxTraversal && targetBeacon.previous) {
+    // Jump straight to blocks indexed by an earlier traversal of this beacon,
+    // as long as the index still links them to the current head
+    const cache =
+      request.useCache !== false ? this.config.blockCache : undefined;
+    const cachedCID =
+      cache &&
+      (await this.getLinkedCID(cache, request.path, currentBeacon, block));
+    if (cachedCID) {
+      if (this.debug) {
+        console.log(`[OrbitportSDK] Block ${block} found in cache index`);
+      }
+      const cachedResult = await this.getBeacon(
+        { path: `/ipfs/${cachedCID}`, sources: request.sources },
+        options,
+      );
+      const cachedBeacon =
+        'sequence' in cachedResult.data
+          ? cachedResult.data
+          : cachedResult.data.gateway || cachedResult.data.api!;
+      if (cachedBeacon.sequence === block) {
+        targetBeacon = cachedBeacon;
+        targetMetadata = cachedResult.metadata;
+      }
+    }
+
+    while (
+      targetBeacon.sequence !== block &&
+      traversedBlocks < maxTraversal &&
+      targetBeacon.previous
+    ) {
       if (this.debug) {
         console.log(
           `[OrbitportSDK] Traversing from block ${targetBeacon.sequence} to previous block`,
@@ -538,7 +1154,13 @@ export class BeaconService {
         );
       }
 
+      const previousCID = getPathCID(previousPath);
+      if (cache && previousCID) {
+        await cache.index(request.path, previousBeacon.sequence, previousCID);
+      }
+
       targetBeacon = previousBeacon;
+      targetMetadata = previousResult.metadata;
       traversedBlocks++;
 
       if (targetBeacon.sequence === block) {
@@ -567,11 +1189,16 @@ export class BeaconService {
       );
     }
 
+    // Blocks below the head are pinned by the CIDs it links to, so the
+    // head's quorum is the one that vouches for the target block
+    const { quorum } = latestResult.metadata;
+    targetMetadata = { ...targetMetadata, ...(quorum && { quorum }) };
+
     // Return the target beacon data in the same format as the original request
     if ('sequence' in latestResult.data) {
       return {
         data: targetBeacon,
-        metadata: latestResult.metadata,
+        metadata: targetMetadata,
         success: true,
       };
     } else {
@@ -582,12 +1209,619 @@ export class BeaconService {
           api: null,
           match: true,
         },
-        metadata: latestResult.metadata,
+        metadata: targetMetadata,
         success: true,
       };
     }
   }
 
+  /**
+   * Looks up the CID indexed for a sequence, provided the index links it to
+   * the beacon's current head
+   *
+   * Every indexed block from the head's predecessor down to the sequence
+   * must be cached and point to the next indexed one through its `previous`
+   * link. Entries left behind by an abandoned fork fail this check, and the
+   * traversal that follows overwrites them. Only the local cache is read.
+   * @param cache - Block cache holding the index
+   * @param beacon - Beacon path the index belongs to
+   * @param head - Current head of the beacon
+   * @param sequence - Sequence to look up
+   * @returns The CID, or null when it is not indexed or not linked to the head
+   */
+  private async getLinkedCID(
+    cache: BeaconBlockCache,
+    beacon: string,
+    head: BeaconData,
+    sequence: number,
+  ): Promise<string | null> {
+    let link = head.previous && getPathCID(head.previous);
+
+    for (let current = head.sequence - 1; link; current--) {
+      const cid = await cache.getCID(beacon, current);
+      if (cid !== link) {
+        if (this.debug && cid) {
+          console.log(
+            `[OrbitportSDK] Cache index diverges from the chain at block ${current}`,
+          );
+        }
+        return null;
+      }
+      if (current === sequence) {
+        return cid;
+      }
+
+      const block = await cache.get(cid);
+      link = block?.previous && getPathCID(block.previous);
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the beacon block that was current at a given instant
+   *
+   * Walks back from the head until a block at or before the instant is
+   * found. Where the block cache indexes the probed sequence, the walk
+   * gallops in growing steps and then binary-searches between the two
+   * bracketing blocks; otherwise it follows `previous` links one block at a
+   * time and stops at the first match, so without an index no block past it
+   * is read. Timestamps are assumed to increase with sequence.
+   * @param date - Instant to look up
+   * @param options - Lookup options; `direction: 'after'` returns the first
+   * block published strictly after the instant instead
+   * @returns Promise resolving to the matching beacon block
+   */
+  async getBeaconAt(
+    date: Date | string,
+    options: BeaconAtOptions = {},
+  ): Promise<ServiceResult<BeaconData>> {
+    const instant = new Date(date).getTime();
+    if (isNaN(instant)) {
+      throw new OrbitportSDKError(
+        'date must be a valid date',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    const {
+      path = this.config.defaultBeaconPath,
+      sources,
+      direction = 'before',
+      ...requestOptions
+    } = options;
+
+    if (!path) {
+      throw new OrbitportSDKError(
+        'No beacon path provided and no default beacon path configured',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    const known = new Map<number, BeaconData>();
+    const isAtOrBefore = (block: BeaconData) =>
+      Date.parse(block.timestamp) <= instant;
+    // Every block read is reached from the head, so /ipfs/ reads are indexed
+    const read = async(blockPath: string) => {
+      const block = await this.readBlock(blockPath, sources, requestOptions);
+      const cid = getPathCID(blockPath);
+      if (cid) {
+        await this.config.blockCache?.index(path, block.sequence, cid);
+      }
+      known.set(block.sequence, block);
+      return block;
+    };
+
+    // Returns the block at a sequence if it was read or is in the cache index
+    const indexed = async(sequence: number): Promise<BeaconData | null> => {
+      const seen = known.get(sequence);
+      if (seen) {
+        return seen;
+      }
+
+      const cid = await this.config.blockCache?.getCID(path, sequence);
+      if (cid) {
+        const block = await this.readBlock(
+          `/ipfs/${cid}`,
+          sources,
+          requestOptions,
+        );
+        if (block.sequence === sequence) {
+          known.set(sequence, block);
+          return block;
+        }
+      }
+      return null;
+    };
+
+    // Returns the block at a sequence, or the first one below it if the
+    // sequence is missing, or null when the chain ends before reaching it
+    const blockAt = async(sequence: number): Promise<BeaconData | null> => {
+      const found = await indexed(sequence);
+      if (found) {
+        return found;
+      }
+
+      let current = [...known.values()]
+        .filter((block) => block.sequence > sequence)
+        .reduce((a, b) => (a.sequence < b.sequence ? a : b));
+      while (current.sequence > sequence) {
+        if (!current.previous) {
+          return null;
+        }
+        current = await read(current.previous);
+      }
+      return current;
+    };
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Looking up beacon ${direction} ${new Date(instant).toISOString()}`,
+      );
+    }
+
+    let hi = await read(path);
+    let lo: BeaconData | null = null;
+
+    if (isAtOrBefore(hi)) {
+      if (direction === 'before') {
+        return this.beaconResult(hi);
+      }
+      throw new OrbitportSDKError(
+        `No beacon published after ${new Date(instant).toISOString()} yet. Current block: ${hi.sequence}`,
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    // Walk back from the head until the instant is bracketed, galloping
+    // through indexed sequences and stepping one block back otherwise
+    for (let step = 1; !lo && hi.sequence > 0; step *= 2) {
+      const block =
+        (await indexed(Math.max(hi.sequence - step, 0))) ||
+        (hi.previous ? await read(hi.previous) : null);
+
+      if (!block) {
+        // The chain ended before the instant
+        break;
+      }
+
+      if (isAtOrBefore(block)) {
+        lo = block;
+      } else {
+        hi = block;
+      }
+    }
+
+    if (!lo) {
+      if (direction === 'after') {
+        return this.beaconResult(hi);
+      }
+      throw new OrbitportSDKError(
+        `No beacon published at or before ${new Date(instant).toISOString()}. First block: ${hi.sequence}`,
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    // Binary search between the bracketing blocks
+    while (hi.sequence - lo.sequence > 1) {
+      let block = await blockAt(
+        Math.floor((lo.sequence + hi.sequence) / 2),
+      );
+
+      if (!block || block.sequence <= lo.sequence) {
+        // Missing sequences: step back from the upper bound instead
+        if (!hi.previous) {
+          break;
+        }
+        block = await read(hi.previous);
+        if (block.sequence <= lo.sequence) {
+          break;
+        }
+      }
+
+      if (isAtOrBefore(block)) {
+        lo = block;
+      } else {
+        hi = block;
+      }
+    }
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Found beacon ${direction === 'before' ? lo.sequence : hi.sequence} after reading ${known.size} blocks`,
+      );
+    }
+
+    return this.beaconResult(direction === 'before' ? lo : hi);
+  }
+
+  /**
+   * Wraps a beacon block in a service result
+   */
+  private beaconResult(beacon: BeaconData): ServiceResult<BeaconData> {
+    return {
+      data: beacon,
+      metadata: { timestamp: Date.now() },
+      success: true,
+    };
+  }
+
+  /**
+   * Iterates over beacon blocks from newest to oldest
+   *
+   * Starts at the beacon head (or at the block given by `cid`) and follows
+   * `previous` links, yielding each block as it is read. Iteration ends at
+   * the start of the chain, after `limit` blocks, at the first block older
+   * than `untilSequence` or `untilTimestamp`, or when `signal` is aborted.
+   * @param options - History options
+   * @returns Async iterable of beacon blocks
+   */
+  async *history(
+    options: BeaconHistoryOptions = {},
+  ): AsyncIterable<BeaconData> {
+    const validation = validateHistoryOptions(options);
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const {
+      path: headPath,
+      cid,
+      sources,
+      limit = Infinity,
+      untilSequence = 0,
+      untilTimestamp,
+      signal,
+      ...requestOptions
+    } = options;
+    const until =
+      untilTimestamp !== undefined ? new Date(untilTimestamp).getTime() : null;
+    let path: string | undefined = cid
+      ? `/ipfs/${cid}`
+      : headPath || this.config.defaultBeaconPath;
+
+    if (!path) {
+      throw new OrbitportSDKError(
+        'No beacon path provided and no default beacon path configured',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    for (let count = 0; path && count < limit; count++) {
+      if (signal?.aborted) {
+        if (this.debug) {
+          console.log('[OrbitportSDK] Beacon history aborted');
+        }
+        return;
+      }
+
+      const beacon = await this.readBlock(path, sources, requestOptions);
+
+      if (
+        beacon.sequence < untilSequence ||
+        (until !== null && Date.parse(beacon.timestamp) < until)
+      ) {
+        return;
+      }
+
+      yield beacon;
+      path = beacon.previous;
+    }
+  }
+
+  /**
+   * Finds the newest block two beacon heads have in common
+   *
+   * Walks `previous` links back from the newer head until both sides reach
+   * the same block. If that block is neither of the heads, they are on
+   * different forks.
+   * @param a - First head
+   * @param b - Second head
+   * @param options - Request options
+   * @param maxDepth - Maximum number of blocks to read
+   * @returns The common ancestor and whether the heads have forked
+   */
+  async findCommonAncestor(
+    a: BeaconData,
+    b: BeaconData,
+    options: RequestOptions = {},
+    maxDepth: number = 64,
+  ): Promise<{ ancestor: BeaconData; forked: boolean }> {
+    // Identical content means an identical block, as the CID hashes it
+    const same = (x: BeaconData, y: BeaconData) =>
+      x.sequence === y.sequence &&
+      x.previous === y.previous &&
+      x.timestamp === y.timestamp &&
+      x.ctrng.length === y.ctrng.length &&
+      x.ctrng.every((value, index) => value === y.ctrng[index]);
+    let depth = 0;
+
+    const step = async(block: BeaconData): Promise<BeaconData> => {
+      if (!block.previous) {
+        throw new OrbitportSDKError(
+          `Beacon heads share no ancestor (block ${block.sequence} has no previous link)`,
+          ERROR_CODES.BEACON_DIVERGENCE,
+        );
+      }
+      if (++depth > maxDepth) {
+        throw new OrbitportSDKError(
+          `No common ancestor found within ${maxDepth} blocks`,
+          ERROR_CODES.BEACON_DIVERGENCE,
+        );
+      }
+      return this.readBlock(block.previous, ['both'], options);
+    };
+
+    let x = a;
+    let y = b;
+    while (!same(x, y)) {
+      if (x.sequence > y.sequence) {
+        x = await step(x);
+      } else if (y.sequence > x.sequence) {
+        y = await step(y);
+      } else {
+        [x, y] = [await step(x), await step(y)];
+      }
+    }
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Common ancestor of ${a.sequence} and ${b.sequence} is ${x.sequence}`,
+      );
+    }
+
+    return { ancestor: x, forked: !same(x, a) && !same(x, b) };
+  }
+
+  /**
+   * Reads a single beacon block, preferring the gateway copy when both
+   * sources are compared
+   * @param path - IPFS/IPNS path of the block
+   * @param sources - Sources to read from
+   * @param options - Request options
+   * @returns Promise resolving to the beacon block
+   */
+  private async readBlock(
+    path: string,
+    sources: IPFSBeaconRequest['sources'],
+    options: RequestOptions,
+  ): Promise<BeaconData> {
+    const result = await this.getBeacon({ path, sources }, options);
+
+    if ('sequence' in result.data) {
+      return result.data;
+    }
+    return result.data.gateway || result.data.api!;
+  }
+
+  /**
+   * Watches a beacon for new blocks
+   *
+   * Polls the head every `interval` ms and emits each new block exactly once,
+   * in sequence order, filling in blocks published between two polls. The
+   * current head is emitted first.
+   * @param path - Beacon path to watch (defaults to the configured beacon)
+   * @param options - Watch options
+   * @returns Watcher to subscribe to with `on('beacon')` or `for await`
+   */
+  watch(
+    path: string | undefined = this.config.defaultBeaconPath,
+    options: BeaconWatchOptions = {},
+  ): BeaconWatcher {
+    if (!path || !this.isValidPath(path)) {
+      throw new OrbitportSDKError(
+        'Invalid path: must start with /ipns/ or /ipfs/',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    if (
+      options.interval !== undefined &&
+      (!Number.isFinite(options.interval) || options.interval <= 0)
+    ) {
+      throw new OrbitportSDKError(
+        'interval must be a positive number',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    if (this.debug) {
+      console.log(`[OrbitportSDK] Watching beacon ${path}`);
+    }
+
+    return new BeaconWatcher(this, path, options, this.debug);
+  }
+
+  /**
+   * Verifies the beacon hash chain between two sequence numbers
+   *
+   * Walks `previous` links back from the head of the beacon, reading every
+   * block from both the gateway and the API. Each link must step the sequence
+   * down by exactly one and must not move the timestamp forward, and blocks
+   * on which the sources disagree are reported as forks. Problems are
+   * collected into the report rather than thrown, so a single bad link does
+   * not hide the rest of the range.
+   * @param fromSequence - Oldest sequence to verify (inclusive)
+   * @param toSequence - Newest sequence to verify (inclusive)
+   * @param path - Beacon path to start from (defaults to the configured beacon)
+   * @param options - Request options
+   * @returns Promise resolving to the chain verification report
+   */
+  async verifyChain(
+    fromSequence: number,
+    toSequence: number,
+    path: string | undefined = this.config.defaultBeaconPath,
+    options: RequestOptions = {},
+  ): Promise<ServiceResult<ChainVerificationReport>> {
+    if (
+      !Number.isInteger(fromSequence) ||
+      !Number.isInteger(toSequence) ||
+      fromSequence < 0 ||
+      fromSequence > toSequence
+    ) {
+      throw new OrbitportSDKError(
+        'Sequence range must be non-negative integers with fromSequence <= toSequence',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    if (!path) {
+      throw new OrbitportSDKError(
+        'No beacon path provided and no default beacon path configured',
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Verifying beacon chain ${fromSequence}..${toSequence} from ${path}`,
+      );
+    }
+
+    const head = await this.readChainBlock(path, options);
+
+    if (toSequence > head.beacon.sequence) {
+      throw new OrbitportSDKError(
+        `Requested block ${toSequence} is greater than current block ${head.beacon.sequence}`,
+        ERROR_CODES.INVALID_REQUEST,
+      );
+    }
+
+    const report: ChainVerificationReport = {
+      valid: false,
+      fromSequence,
+      toSequence,
+      headSequence: head.beacon.sequence,
+      blocksChecked: 0,
+      gaps: [],
+      forks: [],
+      timestampViolations: [],
+      unresolved: [],
+    };
+
+    const inRange = (sequence: number) =>
+      sequence >= fromSequence && sequence <= toSequence;
+    const recordBlock = (
+      blockPath: string,
+      block: ChainBlock,
+    ) => {
+      if (!inRange(block.beacon.sequence)) {
+        return;
+      }
+      report.blocksChecked++;
+      if (block.comparison?.differences) {
+        report.forks.push({
+          sequence: block.beacon.sequence,
+          path: blockPath,
+          differences: block.comparison.differences,
+        });
+      }
+    };
+
+    recordBlock(path, head);
+    let current = head.beacon;
+
+    while (current.sequence > fromSequence) {
+      if (!current.previous) {
+        report.unresolved.push({
+          sequence: current.sequence,
+          error: 'Block has no previous link',
+        });
+        break;
+      }
+
+      let parent: ChainBlock;
+      try {
+        parent = await this.readChainBlock(current.previous, options);
+      } catch (error) {
+        report.unresolved.push({
+          sequence: current.sequence,
+          previous: current.previous,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+
+      const previous = parent.beacon;
+      recordBlock(current.previous, parent);
+
+      // Only links that touch the requested range are reported
+      if (current.sequence <= toSequence || previous.sequence < toSequence) {
+        if (previous.sequence !== current.sequence - 1) {
+          report.gaps.push({
+            sequence: current.sequence,
+            previousSequence: previous.sequence,
+            previous: current.previous,
+          });
+        }
+
+        if (Date.parse(previous.timestamp) > Date.parse(current.timestamp)) {
+          report.timestampViolations.push({
+            sequence: current.sequence,
+            timestamp: current.timestamp,
+            previousSequence: previous.sequence,
+            previousTimestamp: previous.timestamp,
+          });
+        }
+      }
+
+      // A link that does not move backwards could loop forever
+      if (previous.sequence >= current.sequence) {
+        break;
+      }
+
+      current = previous;
+    }
+
+    report.valid =
+      report.gaps.length === 0 &&
+      report.forks.length === 0 &&
+      report.timestampViolations.length === 0 &&
+      report.unresolved.length === 0;
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] ${report.valid ? '✓' : '✗'} Beacon chain ${fromSequence}..${toSequence}: ${report.blocksChecked} blocks checked`,
+      );
+    }
+
+    return {
+      data: report,
+      metadata: { timestamp: Date.now() },
+      success: true,
+    };
+  }
+
+  /**
+   * Reads a single block from both sources for chain verification
+   * @param path - IPFS/IPNS path of the block
+   * @param options - Request options
+   * @returns The block to follow and the source comparison, if both answered
+   */
+  private async readChainBlock(
+    path: string,
+    options: RequestOptions,
+  ): Promise<ChainBlock> {
+    // Bypass the cache so every block is compared across both sources
+    const result = await this.getBeacon(
+      { path, sources: ['both'], enableComparison: true, useCache: false },
+      options,
+    );
+
+    if ('sequence' in result.data) {
+      return { beacon: result.data, comparison: null };
+    }
+
+    // Prefer the gateway copy: /ipfs/ gateway reads are hash-verified
+    return {
+      beacon: result.data.gateway || result.data.api!,
+      comparison: result.data,
+    };
+  }
+
   /**
    * Updates IPFS configuration
    * @param newConfig - New IPFS configuration
@@ -599,6 +1833,10 @@ export class BeaconService {
       this.gateway = newConfig.gateway;
     }
 
+    if (newConfig.nodeCooldown !== undefined) {
+      this.health.setCooldown(newConfig.nodeCooldown);
+    }
+
     if (newConfig.apiUrl) {
       // No need to update API client since we're using direct HTTP calls
       if (this.debug) {
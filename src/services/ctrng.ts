@@ -5,21 +5,78 @@
 import type {
   CTRNGRequest,
   CTRNGResponse,
+  CTRNGProvenance,
   ServiceResult,
   ResponseMetadata,
   RequestOptions,
   OrbitportConfig,
   IPFSCTRNGRequest,
   APICTRNGRequest,
+  BeaconData,
+  EntropyChunk,
+  RandomIntResult,
+  RandomBytesOptions,
+  EntropyMode,
+  BatchRequestOptions,
+  SignatureVerificationResult,
+  BeaconDivergence,
+  SDKEvent,
+  SDKEventHandler,
+  MixedEntropyRequest,
+  MixedEntropyResult,
+  MixedEntropyInput,
+  MixedEntropySource,
+  SeededGeneratorOptions,
 } from '../types';
 import {
   OrbitportSDKError,
   ERROR_CODES,
   createErrorFromAPIResponse,
   createNetworkError,
+  createValidationError,
+  isNetworkError,
 } from '../utils/errors';
-import { sanitizeCTRNGRequest } from '../utils/validation';
+import {
+  sanitizeCTRNGRequest,
+  validateBatchRequest,
+  validateByteLength,
+  validateIntRange,
+  validateMixedRequest,
+  validateSeededGeneratorOptions,
+  hasCredentials,
+} from '../utils/validation';
+import {
+  EXPANSION_SEED_BYTES,
+  MIX_DIGEST_BYTES,
+  EntropyBitPool,
+  bitLength,
+  expandEntropy,
+  getEntropyEncoding,
+  mixEntropy,
+  parseEntropy,
+} from '../utils/entropy';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { withTokenRefresh } from '../utils/retry';
+import { verifyCTRNGSignature } from '../utils/signature';
 import { BeaconService } from './beacon';
+import { SeededGenerator } from './seeded-generator';
+
+const NO_CREDENTIALS = 'No API credentials configured';
+
+// The source a caller asked for, and why it was replaced
+type FallbackOrigin = Pick<
+  CTRNGProvenance,
+  'requestedSource' | 'fallbackReason'
+>;
+
+// Provenance fields that describe the beacon block a value was read from
+type BeaconProvenance = Omit<
+  CTRNGProvenance,
+  'requestedSource' | 'fallbackReason' | 'requestedIndex' | 'index'
+>;
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
 
 /**
  * cTRNG service class
@@ -27,19 +84,25 @@ import { BeaconService } from './beacon';
 export class CTRNGService {
   private config: OrbitportConfig;
   private getToken: () => Promise<string | null>;
+  private refreshToken?: (rejectedToken: string) => Promise<string | null>;
   private debug: boolean;
   private beaconService: BeaconService;
+  private eventHandler?: SDKEventHandler;
 
   constructor(
     config: OrbitportConfig,
     getToken: () => Promise<string | null>,
     beaconService: BeaconService,
     debug: boolean = false,
+    eventHandler?: SDKEventHandler,
+    refreshToken?: (rejectedToken: string) => Promise<string | null>,
   ) {
     this.config = config;
     this.getToken = getToken;
+    this.refreshToken = refreshToken;
     this.debug = debug;
     this.beaconService = beaconService;
+    this.eventHandler = eventHandler;
   }
 
   /**
@@ -53,15 +116,24 @@ export class CTRNGService {
     options: RequestOptions = {},
   ): Promise<ServiceResult<CTRNGResponse>> {
     let sanitizedRequest = sanitizeCTRNGRequest(request);
+    const requested: FallbackOrigin = { requestedSource: sanitizedRequest.src };
 
     // If no API credentials are provided, force IPFS mode for clarity
-    if (!this.config.clientId || !this.config.clientSecret) {
+    if (!hasCredentials(this.config)) {
+      if (sanitizedRequest.src !== 'ipfs' && sanitizedRequest.verify) {
+        throw new OrbitportSDKError(
+          'Signature verification requires API credentials',
+          ERROR_CODES.INVALID_CONFIG,
+        );
+      }
       if (sanitizedRequest.src !== 'ipfs') {
+        this._assertFallbackAllowed(sanitizedRequest);
         sanitizedRequest = {
           src: 'ipfs',
           block: 'INF',
           index: 0,
         };
+        requested.fallbackReason = NO_CREDENTIALS;
         if (this.debug) {
           console.log(
             '[OrbitportSDK] No API credentials provided, switching to IPFS mode',
@@ -85,16 +157,25 @@ export class CTRNGService {
 
     try {
       if (sanitizedRequest.src === 'ipfs') {
-        return await this._getFromIPFSBeacon(sanitizedRequest, requestOptions);
+        return await this._getFromIPFSBeacon(
+          sanitizedRequest,
+          requestOptions,
+          requested,
+        );
       } else if (
         sanitizedRequest.src === 'trng' ||
         sanitizedRequest.src === 'rng'
       ) {
         // TypeScript knows this is APICTRNGRequest
-        if (this.config.clientId && this.config.clientSecret) {
+        if (hasCredentials(this.config)) {
           try {
             return await this._getFromAPI(sanitizedRequest, requestOptions);
           } catch (apiError) {
+            // Unsigned IPFS data cannot satisfy a verified request
+            if (sanitizedRequest.verify) {
+              throw apiError;
+            }
+            this._assertFallbackAllowed(sanitizedRequest, apiError);
             if (this.debug) {
               console.log(
                 '[OrbitportSDK] API failed, trying IPFS fallback:',
@@ -107,7 +188,10 @@ export class CTRNGService {
               block: 'INF',
               index: 0,
             };
-            return await this._getFromIPFSBeacon(ipfsRequest, requestOptions);
+            return await this._getFromIPFSBeacon(ipfsRequest, requestOptions, {
+              ...requested,
+              fallbackReason: getErrorMessage(apiError),
+            });
           }
         } else {
           // No API credentials, switch to IPFS
@@ -116,7 +200,10 @@ export class CTRNGService {
             block: 'INF',
             index: 0,
           };
-          return await this._getFromIPFSBeacon(ipfsRequest, requestOptions);
+          return await this._getFromIPFSBeacon(ipfsRequest, requestOptions, {
+            ...requested,
+            fallbackReason: NO_CREDENTIALS,
+          });
         }
       } else {
         // Fallback case - should not happen with proper types
@@ -133,14 +220,507 @@ export class CTRNGService {
     }
   }
 
+  /**
+   * Generates multiple random values in one call
+   *
+   * API requests share a single access token and run with bounded
+   * concurrency. IPFS requests resolve the beacon once and return count
+   * values of its cTRNG array starting at index, continuing into earlier
+   * blocks when the array is too short.
+   * @param count - Number of values to generate
+   * @param request - Request parameters (src: "trng", "rng", or "ipfs")
+   * @param options - Request options plus API concurrency
+   * @returns Promise resolving to ServiceResult with the CTRNGResponse list
+   */
+  async randomBatch(
+    count: number,
+    request: Partial<CTRNGRequest> = {},
+    options: BatchRequestOptions = {},
+  ): Promise<ServiceResult<CTRNGResponse[]>> {
+    const validation = validateBatchRequest(count, options.concurrency);
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const sanitizedRequest = sanitizeCTRNGRequest(request);
+    const requestOptions = {
+      timeout: options.timeout || this.config.timeout!,
+      retries: options.retries || 3,
+      headers: options.headers || {},
+    };
+
+    if (sanitizedRequest.src === 'ipfs') {
+      return this._getBatchFromIPFSBeacon(
+        count,
+        sanitizedRequest,
+        requestOptions,
+        { requestedSource: 'ipfs' },
+      );
+    }
+
+    if (!hasCredentials(this.config)) {
+      if (sanitizedRequest.verify) {
+        throw new OrbitportSDKError(
+          'Signature verification requires API credentials',
+          ERROR_CODES.INVALID_CONFIG,
+        );
+      }
+      this._assertFallbackAllowed(sanitizedRequest);
+      if (this.debug) {
+        console.log(
+          '[OrbitportSDK] No API credentials provided, switching to IPFS mode',
+        );
+      }
+      return this._fillBatchFromIPFSBeacon(count, [], requestOptions, {
+        requestedSource: sanitizedRequest.src,
+        fallbackReason: NO_CREDENTIALS,
+      });
+    }
+
+    const responses: ServiceResult<CTRNGResponse>[] = [];
+    try {
+      const token = await this.getToken();
+      await mapWithConcurrency(
+        Array.from({ length: count }),
+        options.concurrency || 4,
+        async(_item, index) => {
+          responses[index] = await this._getFromAPI(
+            sanitizedRequest,
+            requestOptions,
+            token,
+          );
+        },
+      );
+
+      return {
+        data: responses.map((response) => response.data),
+        metadata: {
+          timestamp: Date.now(),
+          items: responses.map((response) => response.metadata),
+        },
+        success: true,
+      };
+    } catch (apiError) {
+      if (sanitizedRequest.verify) {
+        throw apiError;
+      }
+      this._assertFallbackAllowed(sanitizedRequest, apiError);
+      if (this.debug) {
+        console.log(
+          '[OrbitportSDK] API batch failed, trying IPFS fallback:',
+          apiError instanceof Error ? apiError.message : String(apiError),
+        );
+      }
+      // Requests still running when one failed are not waited for
+      return this._fillBatchFromIPFSBeacon(
+        count,
+        responses.slice(),
+        requestOptions,
+        {
+          requestedSource: sanitizedRequest.src,
+          fallbackReason: getErrorMessage(apiError),
+        },
+      );
+    }
+  }
+
+  /**
+   * Completes an API batch with values of the latest beacon
+   *
+   * Values the API already returned are kept in place. The positions filled
+   * from IPFS are reported in `metadata.fallbackItems`.
+   * @param count - Number of values in the batch
+   * @param answered - API responses by batch position, with gaps to fill
+   * @param options - Request options
+   * @param requested - Requested source and why it was not used
+   */
+  private async _fillBatchFromIPFSBeacon(
+    count: number,
+    answered: (ServiceResult<CTRNGResponse> | undefined)[],
+    options: RequestOptions,
+    requested: FallbackOrigin,
+  ): Promise<ServiceResult<CTRNGResponse[]>> {
+    const fallbackItems = Array.from({ length: count }, (_, i) => i).filter(
+      (i) => !answered[i],
+    );
+    const fallback = await this._getBatchFromIPFSBeacon(
+      fallbackItems.length,
+      { src: 'ipfs', block: 'INF', index: 0 },
+      options,
+      requested,
+    );
+
+    let next = 0;
+    const results = Array.from(
+      { length: count },
+      (_, i) =>
+        answered[i] || {
+          data: fallback.data[next++],
+          metadata: fallback.metadata,
+        },
+    );
+
+    return {
+      data: results.map((result) => result.data),
+      metadata: {
+        ...fallback.metadata,
+        timestamp: Date.now(),
+        items: results.map((result) => result.metadata),
+        fallbackItems,
+      },
+      success: true,
+    };
+  }
+
+  /**
+   * Generates an unbiased random integer in the inclusive range [min, max]
+   *
+   * Uses rejection sampling: draws the smallest number of bits that covers the
+   * range and discards out-of-range draws, pulling more entropy from the API
+   * or further beacon indices as needed.
+   * @param min - Lower bound (inclusive)
+   * @param max - Upper bound (inclusive)
+   * @param request - Request parameters selecting the entropy source
+   * @param options - Request options (timeout, retries, headers)
+   * @returns Promise resolving to ServiceResult with RandomIntResult
+   */
+  async randomInt(
+    min: number,
+    max: number,
+    request: Partial<CTRNGRequest> = {},
+    options: RequestOptions = {},
+  ): Promise<ServiceResult<RandomIntResult>> {
+    const validation = validateIntRange(min, max);
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const range = BigInt(max) - BigInt(min) + BigInt(1);
+    const bitsNeeded = bitLength(range - BigInt(1));
+    const nextChunk = this._createEntropyStream(request, {
+      timeout: options.timeout || this.config.timeout!,
+      retries: options.retries || 3,
+      headers: options.headers || {},
+    });
+
+    const pool = new EntropyBitPool();
+    const entropy: EntropyChunk[] = [];
+    let rejections = 0;
+    let value: bigint | null = bitsNeeded === 0 ? BigInt(0) : null;
+
+    while (value === null) {
+      let candidate = pool.take(bitsNeeded);
+      while (candidate === null) {
+        const chunk = await nextChunk();
+        entropy.push(chunk);
+        pool.push(
+          parseEntropy(chunk.data, getEntropyEncoding(chunk.source)),
+        );
+        candidate = pool.take(bitsNeeded);
+      }
+
+      if (candidate < range) {
+        value = candidate;
+      } else {
+        rejections++;
+      }
+    }
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Generated integer in [${min}, ${max}] from ${entropy.length} entropy value(s), ${rejections} rejection(s)`,
+      );
+    }
+
+    return {
+      data: {
+        value: Number(BigInt(min) + value),
+        min,
+        max,
+        rejections,
+        entropy,
+      },
+      metadata: { timestamp: Date.now() },
+      success: true,
+    };
+  }
+
+  /**
+   * Generates an arbitrary number of random bytes
+   *
+   * In 'raw' mode every output byte comes directly from cTRNG values, drawing
+   * as many values as needed. In 'expand' mode (default) at least 256 bits of
+   * cTRNG entropy are collected as a seed and expanded with HKDF-SHA256.
+   *
+   * Beacon values are public, so API requests default to `fallback: 'never'`
+   * instead of the configured mode. The source, sequence and index of every
+   * value used are reported in `metadata.entropy`.
+   * @param length - Number of bytes to generate
+   * @param request - Request parameters selecting the entropy source
+   * @param options - Request options plus the entropy mode
+   * @returns Promise resolving to ServiceResult with the random bytes
+   */
+  async randomBytes(
+    length: number,
+    request: Partial<CTRNGRequest> = {},
+    options: RandomBytesOptions = {},
+  ): Promise<ServiceResult<Uint8Array>> {
+    const validation = validateByteLength(length);
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const mode: EntropyMode = options.mode || 'expand';
+    const nextChunk = this._createEntropyStream(
+      request.src === 'ipfs' ? request : { fallback: 'never', ...request },
+      {
+        timeout: options.timeout || this.config.timeout!,
+        retries: options.retries || 3,
+        headers: options.headers || {},
+      },
+    );
+
+    const rawLength = mode === 'raw' ? length : EXPANSION_SEED_BYTES;
+    const raw = new Uint8Array(rawLength);
+    const pool = new EntropyBitPool();
+    // The values themselves are left out, since the output is derived from them
+    const entropy: Omit<EntropyChunk, 'data'>[] = [];
+
+    for (let i = 0; i < rawLength; i++) {
+      let byte = pool.take(8);
+      while (byte === null) {
+        const { data: chunkData, ...chunk } = await nextChunk();
+        entropy.push(chunk);
+        pool.push(
+          parseEntropy(chunkData, getEntropyEncoding(chunk.source)),
+        );
+        byte = pool.take(8);
+      }
+      raw[i] = Number(byte);
+    }
+
+    const data = mode === 'raw' ? raw : await expandEntropy(raw, length);
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Generated ${length} byte(s) in ${mode} mode from ${entropy.length} entropy value(s)`,
+      );
+    }
+
+    return {
+      data,
+      metadata: { timestamp: Date.now(), entropy_mode: mode, entropy },
+      success: true,
+    };
+  }
+
+  /**
+   * Generates random bytes from several sources combined
+   *
+   * Every source is read in parallel and the inputs are mixed with SHA-512
+   * over length-prefixed inputs, so the output is unpredictable as long as
+   * any one source is honest. API sources are read without falling back to
+   * IPFS, and a failed source is left out only if `minSources` still
+   * succeed. Outputs other than 64 bytes are expanded from the digest with
+   * HKDF-SHA256.
+   * @param request - Sources to mix, output length and required sources
+   * @param options - Request options (timeout, retries, headers)
+   * @returns Promise resolving to ServiceResult with the mixed bytes and a
+   * report of every input
+   */
+  async randomMixed(
+    request: MixedEntropyRequest = {},
+    options: RequestOptions = {},
+  ): Promise<ServiceResult<MixedEntropyResult>> {
+    // minSources is checked against the default sources when none are given
+    const sources: MixedEntropySource[] =
+      request.sources ||
+      (this._getAuthMode() === 'authenticated'
+        ? ['trng', 'ipfs', 'local']
+        : ['ipfs', 'local']);
+    const validation = validateMixedRequest({ ...request, sources });
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const length = request.length || MIX_DIGEST_BYTES;
+    const minSources = request.minSources || sources.length;
+    const requestOptions = {
+      timeout: options.timeout || this.config.timeout!,
+      retries: options.retries || 3,
+      headers: options.headers || {},
+    };
+
+    const outcomes = await Promise.allSettled(
+      sources.map((source) =>
+        this._getMixInput(source, request.verify, requestOptions),
+      ),
+    );
+
+    const inputs: MixedEntropyInput[] = [];
+    const mixed: { label: string; bytes: Uint8Array }[] = [];
+    outcomes.forEach((outcome, i) => {
+      const source = sources[i];
+      if (outcome.status === 'fulfilled') {
+        const { bytes, provenance } = outcome.value;
+        mixed.push({ label: source, bytes });
+        inputs.push({
+          source,
+          bytes: bytes.length,
+          ...(provenance && { provenance }),
+        });
+      } else {
+        inputs.push({ source, error: getErrorMessage(outcome.reason) });
+      }
+    });
+
+    if (mixed.length < minSources) {
+      throw new OrbitportSDKError(
+        `Only ${mixed.length} of ${sources.length} entropy sources succeeded (${minSources} required): ${inputs
+          .filter((input) => input.error)
+          .map((input) => `${input.source}: ${input.error}`)
+          .join(', ')}`,
+        ERROR_CODES.PROVIDER_UNAVAILABLE,
+        undefined,
+        inputs,
+      );
+    }
+
+    const digest = await mixEntropy(mixed);
+    const data =
+      length === MIX_DIGEST_BYTES ? digest : await expandEntropy(digest, length);
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Mixed ${length} byte(s) from ${mixed
+          .map((input) => input.label)
+          .join(', ')}`,
+      );
+    }
+
+    return {
+      data: { data, inputs },
+      metadata: { timestamp: Date.now() },
+      success: true,
+    };
+  }
+
+  /**
+   * Creates a deterministic generator seeded from a beacon block
+   *
+   * The seed is derived from every value of the block's cTRNG array, so the
+   * same block and label always replay the same draws. Anyone can reproduce
+   * them later with `SeededGenerator.fromBeacon` and the public block.
+   * @param options - Beacon sequence, beacon path and stream label
+   * @param requestOptions - Request options (timeout, retries, headers)
+   * @returns Promise resolving to ServiceResult with the generator
+   */
+  async seededGenerator(
+    options: SeededGeneratorOptions,
+    requestOptions: RequestOptions = {},
+  ): Promise<ServiceResult<SeededGenerator>> {
+    const validation = validateSeededGeneratorOptions(options);
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const { beacon, metadata } = await this._resolveBeacon(
+      {
+        src: 'ipfs',
+        beaconPath: options.beaconPath,
+        block: options.beacon,
+        index: 0,
+      },
+      {
+        timeout: requestOptions.timeout || this.config.timeout!,
+        retries: requestOptions.retries || 3,
+        headers: requestOptions.headers || {},
+      },
+    );
+
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Seeded generator from beacon block ${beacon.sequence}`,
+      );
+    }
+
+    return {
+      data: await SeededGenerator.fromBeacon(beacon, options.label),
+      metadata,
+      success: true,
+    };
+  }
+
+  /**
+   * Reads one input for randomMixed
+   */
+  private async _getMixInput(
+    source: MixedEntropySource,
+    verify: boolean | undefined,
+    options: RequestOptions,
+  ): Promise<{ bytes: Uint8Array; provenance?: CTRNGProvenance }> {
+    const encoder = new TextEncoder();
+
+    switch (source) {
+    case 'local':
+      return {
+        bytes: crypto.getRandomValues(new Uint8Array(MIX_DIGEST_BYTES)),
+      };
+    case 'ipfs': {
+      // The whole cTRNG array of the latest block is mixed in
+      const { beacon, provenance } = await this._resolveBeacon(
+        { src: 'ipfs', block: 'INF', index: 0 },
+        options,
+      );
+      return {
+        bytes: encoder.encode(beacon.ctrng.join(',')),
+        provenance: { requestedSource: 'ipfs', ...provenance },
+      };
+    }
+    default: {
+      if (this._getAuthMode() === 'token-less') {
+        throw new OrbitportSDKError(
+          `${NO_CREDENTIALS} for src '${source}'`,
+          ERROR_CODES.INVALID_CONFIG,
+        );
+      }
+      const result = await this._getFromAPI(
+        { src: source, ...(verify && { verify }) },
+        options,
+      );
+      return {
+        bytes: encoder.encode(result.data.data),
+        provenance: result.data.provenance,
+      };
+    }
+    }
+  }
+
   /**
    * Gets random data from API
    */
   private async _getFromAPI(
     request: APICTRNGRequest,
     options: RequestOptions,
+    existingToken?: string | null,
   ): Promise<ServiceResult<CTRNGResponse>> {
-    const token = await this.getToken();
+    const token =
+      existingToken === undefined ? await this.getToken() : existingToken;
     if (!token) {
       throw new OrbitportSDKError(
         'No valid authentication token available',
@@ -148,6 +728,25 @@ export class CTRNGService {
       );
     }
 
+    // Tokens revoked or rotated early are replaced and the call replayed once
+    if (!this.refreshToken) {
+      return this._fetchFromAPI(request, options, token);
+    }
+    return withTokenRefresh(
+      token,
+      (currentToken) => this._fetchFromAPI(request, options, currentToken),
+      this.refreshToken,
+    );
+  }
+
+  /**
+   * Makes one authenticated cTRNG API request
+   */
+  private async _fetchFromAPI(
+    request: APICTRNGRequest,
+    options: RequestOptions,
+    token: string,
+  ): Promise<ServiceResult<CTRNGResponse>> {
     const url = `${this.config.apiUrl}/api/v1/services/trng`;
     const queryParams = new URLSearchParams();
 
@@ -205,6 +804,24 @@ export class CTRNGService {
         // Validate response structure
         this._validateResponse(data);
 
+        if (request.verify) {
+          const verification = await this.verifySignature(data);
+          if (!verification.valid) {
+            throw new OrbitportSDKError(
+              `Signature verification failed: ${verification.reason}`,
+              ERROR_CODES.SIGNATURE_INVALID,
+              undefined,
+              verification,
+            );
+          }
+        }
+
+        data.provenance = {
+          requestedSource: request.src,
+          source: request.src,
+          authMode: 'authenticated',
+        };
+
         const requestId = response.headers.get('x-request-id');
         const metadata: ResponseMetadata = {
           timestamp: Date.now(),
@@ -250,6 +867,7 @@ export class CTRNGService {
   private async _getFromIPFSBeacon(
     request: CTRNGRequest,
     options: RequestOptions,
+    requested: FallbackOrigin = { requestedSource: 'ipfs' },
   ): Promise<ServiceResult<CTRNGResponse>> {
     // Type guard to ensure this is an IPFS request
     if (request.src !== 'ipfs') {
@@ -259,9 +877,180 @@ export class CTRNGService {
       );
     }
 
-    const ipfsRequest = request;
-    const beaconPath =
-      ipfsRequest.beaconPath || this.config.ipfs?.defaultBeaconPath;
+    try {
+      const { beacon, metadata, provenance } = await this._resolveBeacon(
+        request,
+        options,
+      );
+      const ctrngArray = beacon.ctrng;
+
+      // Use index with modulo validation to prevent out-of-bounds access
+      const requestedIndex = request.index ?? 0;
+      const actualIndex = requestedIndex % ctrngArray.length;
+      const ctrngValue = ctrngArray[actualIndex];
+
+      if (this.debug && requestedIndex !== actualIndex) {
+        console.log(
+          `[OrbitportSDK] index ${requestedIndex} adjusted to ${actualIndex} (array length: ${ctrngArray.length})`,
+        );
+      }
+
+      const ctrngResponse: CTRNGResponse = {
+        service: 'ipfs-beacon',
+        src: 'ipfs',
+        data: ctrngValue.toString(),
+        timestamp: beacon.timestamp,
+        provider: 'ipfs-beacon',
+        provenance: {
+          ...requested,
+          ...provenance,
+          requestedIndex,
+          index: actualIndex,
+        },
+      };
+
+      return {
+        data: ctrngResponse,
+        metadata,
+        success: true,
+      };
+    } catch (error) {
+      if (this.debug) {
+        console.error('[OrbitportSDK] IPFS beacon request failed:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets count cTRNG values of a beacon block, starting at `request.index`
+   *
+   * When the block holds too few values, the batch continues with the
+   * earlier blocks its `previous` links point to.
+   * @throws OrbitportSDKError with CTRNG_ERROR if the chain ends first
+   */
+  private async _getBatchFromIPFSBeacon(
+    count: number,
+    request: IPFSCTRNGRequest,
+    options: RequestOptions,
+    requested: FallbackOrigin,
+  ): Promise<ServiceResult<CTRNGResponse[]>> {
+    const { beacon, metadata, provenance } = await this._resolveBeacon(
+      request,
+      options,
+    );
+    const data: CTRNGResponse[] = [];
+    let block = beacon;
+    let blockProvenance = provenance;
+    let start = (request.index ?? 0) % beacon.ctrng.length;
+
+    for (;;) {
+      for (
+        let index = start;
+        index < block.ctrng.length && data.length < count;
+        index++
+      ) {
+        data.push({
+          service: 'ipfs-beacon',
+          src: 'ipfs',
+          data: block.ctrng[index].toString(),
+          timestamp: block.timestamp,
+          provider: 'ipfs-beacon',
+          provenance: {
+            ...requested,
+            ...blockProvenance,
+            requestedIndex: index,
+            index,
+          },
+        });
+      }
+
+      if (data.length === count) {
+        break;
+      }
+      if (!block.previous) {
+        throw new OrbitportSDKError(
+          `Beacon chain ended at block ${block.sequence} with ${data.length} of ${count} value(s)`,
+          ERROR_CODES.CTRNG_ERROR,
+        );
+      }
+
+      if (this.debug) {
+        console.log(
+          `[OrbitportSDK] Beacon block ${block.sequence} ran out of values, continuing with the previous block`,
+        );
+      }
+
+      const previous = await this._getPreviousBeacon(block.previous, options);
+      const { cid, sources } = previous.metadata;
+      blockProvenance = {
+        source: 'ipfs',
+        authMode: provenance.authMode,
+        beaconPath: provenance.beaconPath,
+        ...(cid && { cid }),
+        sequence: previous.beacon.sequence,
+        agreeingSources: sources || [],
+        ...(provenance.quorumReached !== undefined && {
+          quorumReached: provenance.quorumReached,
+        }),
+      };
+      block = previous.beacon;
+      start = 0;
+    }
+
+    return {
+      data,
+      metadata,
+      success: true,
+    };
+  }
+
+  /**
+   * Reads the block a beacon's `previous` link points to
+   * @param path - The `previous` link
+   * @param options - Request options
+   */
+  private async _getPreviousBeacon(
+    path: string,
+    options: RequestOptions,
+  ): Promise<{ beacon: BeaconData; metadata: ResponseMetadata }> {
+    // The previous block is pinned by its CID, so one read is enough
+    const result = await this.beaconService.getBeacon(
+      {
+        path,
+        sources: ['both'],
+        enableComparison: true,
+        timeout: options.timeout,
+      },
+      options,
+    );
+    const beacon =
+      'sequence' in result.data
+        ? result.data
+        : result.data.gateway || result.data.api;
+    if (!beacon) {
+      throw new OrbitportSDKError(
+        'No valid beacon data found from any source',
+        ERROR_CODES.INVALID_RESPONSE,
+      );
+    }
+
+    return { beacon, metadata: result.metadata };
+  }
+
+  /**
+   * Reads the beacon block for an IPFS request, selecting between sources
+   * when the gateway and API disagree
+   */
+  private async _resolveBeacon(
+    request: IPFSCTRNGRequest,
+    options: RequestOptions,
+  ): Promise<{
+    beacon: BeaconData;
+    metadata: ResponseMetadata;
+    provenance: BeaconProvenance;
+  }> {
+    const beaconPath = request.beaconPath || this.config.ipfs?.defaultBeaconPath;
 
     if (!beaconPath) {
       throw new OrbitportSDKError(
@@ -275,149 +1064,340 @@ export class CTRNGService {
         gateway: this.config.ipfs?.gateway,
         api: this.config.ipfs?.apiUrl,
         path: beaconPath,
-        block: ipfsRequest.block || 'INF',
-        index: ipfsRequest.index || 0,
+        block: request.block || 'INF',
+        index: request.index || 0,
       });
     }
 
-    try {
-      // Use block traversal if block is specified, otherwise get latest
-      const ipfsResult = await this.beaconService.getBeaconWithBlockTraversal(
-        {
-          path: beaconPath,
-          sources: ['both'],
-          enableComparison: true,
-          timeout: options.timeout,
-          block: ipfsRequest.block,
-        },
-        options,
+    // Use block traversal if block is specified, otherwise get latest
+    const ipfsResult = await this.beaconService.getBeaconWithBlockTraversal(
+      {
+        path: beaconPath,
+        sources: ['both'],
+        enableComparison: true,
+        timeout: options.timeout,
+        block: request.block,
+      },
+      options,
+    );
+
+    let selectedBeaconData: BeaconData;
+    let agreeingSources = ipfsResult.metadata.sources;
+    let cid = ipfsResult.metadata.cid;
+
+    // A configured quorum is required; without one, the default majority
+    // only picks the block and is reported in the provenance
+    const headQuorum = ipfsResult.metadata.quorum;
+    if (headQuorum && !headQuorum.reached && this.config.ipfs?.quorum) {
+      throw new OrbitportSDKError(
+        `IPFS quorum not reached: ${headQuorum.agreeing} of ${headQuorum.votes.length} node(s) agree, ${headQuorum.threshold} required`,
+        ERROR_CODES.QUORUM_NOT_REACHED,
+        undefined,
+        headQuorum,
       );
+    }
 
-      // Handle comparison result
-      if ('match' in ipfsResult.data) {
-        const beaconData = ipfsResult.data.gateway || ipfsResult.data.api;
-        if (!beaconData) {
-          throw new OrbitportSDKError(
-            'No valid beacon data found from any source',
-            ERROR_CODES.INVALID_RESPONSE,
+    // Handle comparison result
+    if ('match' in ipfsResult.data) {
+      const beaconData = ipfsResult.data.gateway || ipfsResult.data.api;
+      if (!beaconData) {
+        throw new OrbitportSDKError(
+          'No valid beacon data found from any source',
+          ERROR_CODES.INVALID_RESPONSE,
+        );
+      }
+
+      // Log comparison results and select the latest data
+      if (this.debug) {
+        if (ipfsResult.data.match) {
+          console.log(
+            '[OrbitportSDK] ✓ Gateway and API agree on sequence/previous',
+          );
+        } else {
+          console.log(
+            '[OrbitportSDK] ⚠ Difference detected:',
+            ipfsResult.data.differences,
           );
         }
+      }
 
-        // Log comparison results and select the latest data
+      const { gateway, api, quorum } = ipfsResult.data;
+      if (gateway && api && !ipfsResult.data.match) {
+        selectedBeaconData = await this._resolveDivergence(
+          { gateway, api, differences: ipfsResult.data.differences, quorum },
+          options,
+        );
+      } else if (quorum?.beacon) {
+        selectedBeaconData = quorum.beacon;
         if (this.debug) {
-          if (ipfsResult.data.match) {
-            console.log(
-              '[OrbitportSDK] ✓ Gateway and API agree on sequence/previous',
-            );
-          } else {
-            console.log(
-              '[OrbitportSDK] ⚠ Difference detected:',
-              ipfsResult.data.differences,
-            );
-          }
+          console.log(
+            `[OrbitportSDK] Using quorum data (${quorum.agreeing} of ${quorum.votes.length} nodes agree)`,
+          );
         }
+      } else {
+        selectedBeaconData = beaconData;
+      }
 
-        // If there's a difference, pick the one with the latest sequence
-        let selectedBeaconData = beaconData;
-        if (
-          !ipfsResult.data.match &&
-          ipfsResult.data.gateway &&
-          ipfsResult.data.api
-        ) {
-          const gatewaySeq = ipfsResult.data.gateway.sequence;
-          const apiSeq = ipfsResult.data.api.sequence;
-
-          if (gatewaySeq > apiSeq) {
-            selectedBeaconData = ipfsResult.data.gateway;
-            if (this.debug) {
-              console.log(
-                `[OrbitportSDK] Using gateway data (sequence ${gatewaySeq} > API sequence ${apiSeq})`,
-              );
-            }
-          } else if (apiSeq > gatewaySeq) {
-            selectedBeaconData = ipfsResult.data.api;
-            if (this.debug) {
-              console.log(
-                `[OrbitportSDK] Using API data (sequence ${apiSeq} > gateway sequence ${gatewaySeq})`,
-              );
-            }
-          }
+      // Votes name every node that returned the selected block; a block the
+      // divergence policy picked from elsewhere has no known CID
+      if (quorum) {
+        agreeingSources = quorum.votes
+          .filter(
+            (vote) =>
+              vote.sequence === selectedBeaconData.sequence &&
+              vote.previous === selectedBeaconData.previous,
+          )
+          .map((vote) => vote.source);
+      }
+      if (
+        selectedBeaconData.sequence !== beaconData.sequence ||
+        selectedBeaconData.previous !== beaconData.previous
+      ) {
+        cid = undefined;
+      }
+    } else {
+      // Single beacon data (fallback)
+      selectedBeaconData = ipfsResult.data;
+    }
+
+    if (!selectedBeaconData.ctrng || selectedBeaconData.ctrng.length === 0) {
+      throw new OrbitportSDKError(
+        'No cTRNG values found in beacon data',
+        ERROR_CODES.INVALID_RESPONSE,
+      );
+    }
+
+    return {
+      beacon: selectedBeaconData,
+      metadata: ipfsResult.metadata,
+      provenance: {
+        source: 'ipfs',
+        authMode: this._getAuthMode(),
+        beaconPath,
+        ...(cid && { cid }),
+        sequence: selectedBeaconData.sequence,
+        agreeingSources: agreeingSources || [],
+        ...(headQuorum && { quorumReached: headQuorum.reached }),
+      },
+    };
+  }
+
+  /**
+   * Picks a block when the gateway and API return different beacon heads,
+   * following `ipfs.divergencePolicy`, and emits a `beacon_divergence` event
+   *
+   * 'prefer-latest' uses the quorum block if a quorum was reached, otherwise
+   * the newer head if it descends from the older one, and the common
+   * ancestor if the heads have forked. Custom policies receive the common
+   * ancestor and may return null to reject both heads.
+   * @throws OrbitportSDKError with BEACON_DIVERGENCE if the policy rejects
+   * both heads
+   */
+  private async _resolveDivergence(
+    divergence: BeaconDivergence,
+    options: RequestOptions,
+  ): Promise<BeaconData> {
+    const policy = this.config.ipfs?.divergencePolicy || 'prefer-latest';
+    const policyName = typeof policy === 'function' ? 'custom' : policy;
+    const { gateway, api, quorum } = divergence;
+    let selected: BeaconData | null = null;
+    let failure: unknown;
+
+    try {
+      switch (policy) {
+      case 'require-match':
+        break;
+      case 'prefer-gateway':
+        selected = gateway;
+        break;
+      case 'prefer-api':
+        selected = api;
+        break;
+      default: {
+        if (policy === 'prefer-latest' && quorum?.beacon) {
+          selected = quorum.beacon;
+          break;
         }
 
-        // Convert to CTRNGResponse format and return selected cTRNG value
-        const ctrngArray = selectedBeaconData.ctrng;
-        if (!ctrngArray || ctrngArray.length === 0) {
-          throw new OrbitportSDKError(
-            'No cTRNG values found in beacon data',
-            ERROR_CODES.INVALID_RESPONSE,
-          );
+        const { ancestor, forked } =
+          await this.beaconService.findCommonAncestor(gateway, api, options);
+        divergence.commonAncestor = ancestor;
+        divergence.forked = forked;
+
+        if (policy !== 'prefer-latest') {
+          selected = await policy(divergence);
+        } else if (forked) {
+          selected = ancestor;
+        } else {
+          selected = gateway.sequence > api.sequence ? gateway : api;
         }
+      }
+      }
+    } catch (error) {
+      failure = error;
+    }
 
-        // Use index with modulo validation to prevent out-of-bounds access
-        const requestedIndex = ipfsRequest.index ?? 0;
-        const actualIndex = requestedIndex % ctrngArray.length;
-        const ctrngValue = ctrngArray[actualIndex];
+    if (this.debug) {
+      console.log(
+        `[OrbitportSDK] Divergence policy '${policyName}' selected ${
+          selected ? `block ${selected.sequence}` : 'no block'
+        }`,
+      );
+    }
+
+    this.emitEvent({
+      type: 'beacon_divergence',
+      timestamp: Date.now(),
+      data: { ...divergence, policy: policyName, selected },
+    });
+
+    if (failure) {
+      throw failure;
+    }
+    if (!selected) {
+      throw new OrbitportSDKError(
+        `Gateway and API returned different beacon heads (sequence ${gateway.sequence} vs ${api.sequence}); rejected by divergence policy '${policyName}'`,
+        ERROR_CODES.BEACON_DIVERGENCE,
+        undefined,
+        divergence,
+      );
+    }
+    return selected;
+  }
+
+  /**
+   * Creates a stream of entropy values for derived results
+   *
+   * API requests draw a fresh value per call and switch to the latest beacon
+   * if the API fails. IPFS requests walk the resolved beacon's cTRNG array
+   * starting at the requested index, using every value at most once.
+   */
+  private _createEntropyStream(
+    request: Partial<CTRNGRequest>,
+    options: RequestOptions,
+  ): () => Promise<EntropyChunk> {
+    const sanitizedRequest = sanitizeCTRNGRequest(request);
+    const latestBeacon: IPFSCTRNGRequest = {
+      src: 'ipfs',
+      block: 'INF',
+      index: 0,
+    };
+
+    if (sanitizedRequest.src === 'ipfs') {
+      return this._createBeaconStream(sanitizedRequest, options);
+    }
 
-        if (this.debug && requestedIndex !== actualIndex) {
+    if (!hasCredentials(this.config)) {
+      if (sanitizedRequest.verify) {
+        throw new OrbitportSDKError(
+          'Signature verification requires API credentials',
+          ERROR_CODES.INVALID_CONFIG,
+        );
+      }
+      this._assertFallbackAllowed(sanitizedRequest);
+      return this._createBeaconStream(latestBeacon, options);
+    }
+
+    let beaconStream: (() => Promise<EntropyChunk>) | undefined;
+
+    return async() => {
+      if (beaconStream) {
+        return beaconStream();
+      }
+
+      try {
+        const result = await this._getFromAPI(sanitizedRequest, options);
+        return { source: sanitizedRequest.src, data: result.data.data };
+      } catch (apiError) {
+        if (sanitizedRequest.verify) {
+          throw apiError;
+        }
+        this._assertFallbackAllowed(sanitizedRequest, apiError);
+        if (this.debug) {
           console.log(
-            `[OrbitportSDK] index ${requestedIndex} adjusted to ${actualIndex} (array length: ${ctrngArray.length})`,
+            '[OrbitportSDK] API failed, drawing entropy from IPFS beacon:',
+            apiError instanceof Error ? apiError.message : String(apiError),
           );
         }
+        beaconStream = this._createBeaconStream(latestBeacon, options);
+        return beaconStream();
+      }
+    };
+  }
 
-        const ctrngResponse: CTRNGResponse = {
-          service: 'ipfs-beacon',
-          src: 'ipfs',
-          data: ctrngValue.toString(),
-          timestamp: selectedBeaconData.timestamp,
-          provider: 'ipfs-beacon',
-        };
+  /**
+   * Creates a stream over the cTRNG values of a beacon block
+   *
+   * The block's values are used once each, starting at the requested index
+   * and wrapping around the array. The stream then continues with the blocks
+   * the `previous` links point to, and fails once the chain ends.
+   */
+  private _createBeaconStream(
+    request: IPFSCTRNGRequest,
+    options: RequestOptions,
+  ): () => Promise<EntropyChunk> {
+    let beacon: BeaconData | undefined;
+    let start = request.index ?? 0;
+    let consumed = 0;
 
-        return {
-          data: ctrngResponse,
-          metadata: ipfsResult.metadata,
-          success: true,
-        };
-      } else {
-        // Single beacon data (fallback)
-        const ctrngArray = ipfsResult.data.ctrng;
-        if (!ctrngArray || ctrngArray.length === 0) {
+    return async() => {
+      if (!beacon) {
+        beacon = (await this._resolveBeacon(request, options)).beacon;
+      }
+
+      while (consumed >= beacon.ctrng.length) {
+        if (!beacon.previous) {
           throw new OrbitportSDKError(
-            'No cTRNG values found in beacon data',
-            ERROR_CODES.INVALID_RESPONSE,
+            `Beacon entropy exhausted: the beacon chain ended at block ${beacon.sequence}`,
+            ERROR_CODES.CTRNG_ERROR,
           );
         }
-
-        // Use index with modulo validation to prevent out-of-bounds access
-        const requestedIndex = ipfsRequest.index ?? 0;
-        const actualIndex = requestedIndex % ctrngArray.length;
-        const ctrngValue = ctrngArray[actualIndex];
-
-        if (this.debug && requestedIndex !== actualIndex) {
+        if (this.debug) {
           console.log(
-            `[OrbitportSDK] index ${requestedIndex} adjusted to ${actualIndex} (array length: ${ctrngArray.length})`,
+            `[OrbitportSDK] Beacon block ${beacon.sequence} ran out of values, continuing with the previous block`,
           );
         }
+        beacon = (await this._getPreviousBeacon(beacon.previous, options))
+          .beacon;
+        start = 0;
+        consumed = 0;
+      }
 
-        const ctrngResponse: CTRNGResponse = {
-          service: 'ipfs-beacon',
-          src: 'ipfs',
-          data: ctrngValue.toString(),
-          timestamp: ipfsResult.data.timestamp,
-          provider: 'ipfs-beacon',
-        };
+      const length = beacon.ctrng.length;
+      const index = (start + consumed) % length;
+      consumed++;
 
-        return {
-          data: ctrngResponse,
-          metadata: ipfsResult.metadata,
-          success: true,
-        };
-      }
-    } catch (error) {
-      if (this.debug) {
-        console.error('[OrbitportSDK] IPFS beacon request failed:', error);
-      }
-      throw error;
+      return {
+        source: 'ipfs',
+        data: beacon.ctrng[index].toString(),
+        sequence: beacon.sequence,
+        index,
+      };
+    };
+  }
+
+  /**
+   * Verifies the signature of a cTRNG API response
+   *
+   * The signature over `data` is checked with the algorithm named in
+   * `signature.algo` (ECDSA P-256 or Ed25519) against the trusted public keys
+   * pinned in `OrbitportConfig.trustedPublicKeys`.
+   * @param response - cTRNG response to verify
+   * @returns Promise resolving to the verification result
+   */
+  async verifySignature(
+    response: CTRNGResponse,
+  ): Promise<SignatureVerificationResult> {
+    const result = await verifyCTRNGSignature(
+      response,
+      this.config.trustedPublicKeys,
+    );
+
+    if (this.debug) {
+      console.log('[OrbitportSDK] Signature verification:', result);
     }
+
+    return result;
   }
 
   /**
@@ -480,11 +1460,98 @@ export class CTRNGService {
     }
   }
 
+  /**
+   * Checks that the fallback mode allows answering an API request from the
+   * IPFS beacon
+   * @param request - API request that would be replaced
+   * @param apiError - Error the API failed with; omitted when no credentials
+   * are configured
+   * @throws OrbitportSDKError with PROVIDER_UNAVAILABLE if the API could not
+   * be reached, or FALLBACK_FAILED for any other failure, when the mode does
+   * not allow falling back
+   */
+  private _assertFallbackAllowed(
+    request: APICTRNGRequest,
+    apiError?: unknown,
+  ): void {
+    const mode = request.fallback || this.config.fallback || 'auto';
+    const networkError =
+      apiError instanceof OrbitportSDKError && isNetworkError(apiError);
+
+    if (
+      mode === 'auto' ||
+      (mode === 'ipfs-only-on-network-error' && networkError)
+    ) {
+      return;
+    }
+
+    if (apiError === undefined) {
+      throw new OrbitportSDKError(
+        `${NO_CREDENTIALS} for src '${request.src}' and fallback is '${mode}'`,
+        ERROR_CODES.FALLBACK_FAILED,
+      );
+    }
+    throw new OrbitportSDKError(
+      `cTRNG API request failed and fallback is '${mode}': ${getErrorMessage(apiError)}`,
+      networkError
+        ? ERROR_CODES.PROVIDER_UNAVAILABLE
+        : ERROR_CODES.FALLBACK_FAILED,
+      apiError instanceof OrbitportSDKError ? apiError.status : undefined,
+      apiError,
+    );
+  }
+
+  /**
+   * Whether values can be requested with an access token
+   */
+  private _getAuthMode(): CTRNGProvenance['authMode'] {
+    return hasCredentials(this.config)
+      ? 'authenticated'
+      : 'token-less';
+  }
+
+  /**
+   * Emits an SDK event
+   */
+  private emitEvent(event: SDKEvent): void {
+    if (this.eventHandler) {
+      try {
+        this.eventHandler(event);
+      } catch (error) {
+        if (this.debug) {
+          console.warn('[OrbitportSDK] Event handler error:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Updates the event handler
+   */
+  setEventHandler(handler: SDKEventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  /**
+   * Updates the configuration
+   *
+   * The beacon service is not updated; callers pass IPFS changes to it
+   * separately, or use updateIPFSConfig.
+   * @param newConfig - Configuration fields to change
+   */
+  updateConfig(newConfig: Partial<OrbitportConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
   /**
    * Updates IPFS configuration
    * @param ipfsConfig - New IPFS configuration
    */
   updateIPFSConfig(ipfsConfig: any): void {
+    this.config = {
+      ...this.config,
+      ipfs: { ...this.config.ipfs, ...ipfsConfig },
+    };
     this.beaconService.updateConfig(ipfsConfig);
   }
 }
@@ -0,0 +1,276 @@
+/**
+ * Pool of prefetched cTRNG bytes for synchronous, low-latency draws
+ */
+
+import type {
+  BatchRequestOptions,
+  CTRNGRequest,
+  EntropyPoolOptions,
+} from '../types';
+import {
+  EntropyBitPool,
+  getEntropyEncoding,
+  parseEntropy,
+} from '../utils/entropy';
+import {
+  OrbitportSDKError,
+  ERROR_CODES,
+  createValidationError,
+} from '../utils/errors';
+import { validateEntropyPoolOptions } from '../utils/validation';
+import type { CTRNGService } from './ctrng';
+
+type ErrorListener = (error: Error) => void;
+
+/**
+ * Keeps a buffer of cTRNG bytes in memory and serves `take(n)` from it
+ * without any network round trip
+ *
+ * The pool fills itself after creation and refills in the background once
+ * fewer than `lowWater` bytes remain. Each refill requests `batchSize` values
+ * at a time through `randomBatch`, so API usage comes in few, bounded bursts.
+ * Every byte is served at most once. Beacon values are never reused either:
+ * values from a block the pool already drew from are discarded, so an IPFS
+ * pool only grows when a new block is published. Refill failures are
+ * reported to `error` listeners.
+ *
+ * API pools default to `fallback: 'never'`: the bytes of a pool carry no
+ * provenance, so a failed refill must not quietly top it up with public
+ * beacon values. Set `request.fallback` to allow that explicitly.
+ */
+export class EntropyPool {
+  private readonly service: CTRNGService;
+  private readonly request: Partial<CTRNGRequest>;
+  private readonly requestOptions: BatchRequestOptions;
+  private readonly size: number;
+  private readonly lowWater: number;
+  private readonly batchSize: number;
+  private readonly debug: boolean;
+  private readonly buffer: Uint8Array;
+  private readonly bits = new EntropyBitPool();
+  private errorListeners = new Set<ErrorListener>();
+  private length = 0;
+  private lastSequence = -1;
+  private refilling: Promise<void> | null = null;
+  private timer?: ReturnType<typeof setTimeout>;
+  private active = true;
+
+  constructor(
+    service: CTRNGService,
+    options: EntropyPoolOptions = {},
+    debug: boolean = false,
+  ) {
+    const validation = validateEntropyPoolOptions(options);
+    if (!validation.valid) {
+      throw createValidationError(
+        validation.errors.join(', '),
+        validation.errors,
+      );
+    }
+
+    const {
+      request = {},
+      size = 1024,
+      lowWater,
+      batchSize = 32,
+      ...requestOptions
+    } = options;
+    this.service = service;
+    this.request =
+      request.src === 'ipfs' ? request : { fallback: 'never', ...request };
+    this.requestOptions = requestOptions;
+    this.size = size;
+    this.lowWater = lowWater ?? Math.floor(size / 4);
+    this.batchSize = batchSize;
+    this.debug = debug;
+    this.buffer = new Uint8Array(size);
+
+    // First fill starts after the caller has attached its listeners
+    this.timer = setTimeout(() => this.refillInBackground(), 0);
+  }
+
+  /**
+   * Number of bytes that can be taken right now
+   */
+  get available(): number {
+    return this.length;
+  }
+
+  /**
+   * Whether the pool is still serving and refilling
+   */
+  get running(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Takes random bytes from the pool
+   *
+   * Starts a background refill when the pool drops below its low-water mark.
+   * @param n - Number of bytes
+   * @returns Bytes that are removed from the pool
+   * @throws OrbitportSDKError with CTRNG_ERROR if fewer than n bytes are
+   * available
+   */
+  take(n: number): Uint8Array {
+    if (!Number.isSafeInteger(n) || n <= 0 || n > this.size) {
+      throw createValidationError(
+        `n must be a positive integer no larger than the pool size (${this.size})`,
+      );
+    }
+    if (!this.active) {
+      throw new OrbitportSDKError(
+        'Entropy pool has been stopped',
+        ERROR_CODES.CTRNG_ERROR,
+      );
+    }
+
+    if (n > this.length) {
+      this.refillInBackground();
+      throw new OrbitportSDKError(
+        `Entropy pool exhausted: ${n} byte(s) requested, ${this.length} available`,
+        ERROR_CODES.CTRNG_ERROR,
+      );
+    }
+
+    // Served bytes are wiped so they cannot be handed out twice
+    this.length -= n;
+    const bytes = this.buffer.slice(this.length, this.length + n);
+    this.buffer.fill(0, this.length, this.length + n);
+
+    if (this.length < this.lowWater) {
+      this.refillInBackground();
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Fills the pool to its full size
+   *
+   * Joins a refill that is already running. Await this after creating the
+   * pool to wait for the first fill.
+   * @returns Promise that resolves once the pool is full, or once no fresh
+   * entropy is available (e.g. no new beacon block yet)
+   */
+  refill(): Promise<void> {
+    if (!this.refilling) {
+      this.refilling = this.fill().finally(() => {
+        this.refilling = null;
+      });
+    }
+    return this.refilling;
+  }
+
+  /**
+   * Registers a listener for refill errors
+   */
+  on(event: 'error', listener: ErrorListener): this {
+    if (event === 'error') {
+      this.errorListeners.add(listener);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a listener registered with `on`
+   */
+  off(event: 'error', listener: ErrorListener): this {
+    if (event === 'error') {
+      this.errorListeners.delete(listener);
+    }
+    return this;
+  }
+
+  /**
+   * Stops refilling and wipes the buffered bytes
+   */
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    clearTimeout(this.timer);
+    this.buffer.fill(0);
+    this.length = 0;
+
+    if (this.debug) {
+      console.log('[OrbitportSDK] Stopped entropy pool');
+    }
+  }
+
+  private refillInBackground(): void {
+    // Errors are reported to listeners by fill()
+    this.refill().catch(() => undefined);
+  }
+
+  /**
+   * Draws batches until the pool is full or a batch adds nothing new
+   */
+  private async fill(): Promise<void> {
+    try {
+      while (this.active && this.length < this.size) {
+        const added = await this.draw();
+
+        if (this.debug) {
+          console.log(
+            `[OrbitportSDK] Entropy pool refilled with ${added} byte(s), ${this.length}/${this.size} available`,
+          );
+        }
+        if (added === 0) {
+          break;
+        }
+      }
+    } catch (error) {
+      if (this.debug) {
+        console.warn('[OrbitportSDK] Entropy pool refill failed:', error);
+      }
+      const refillError =
+        error instanceof Error ? error : new Error(String(error));
+      this.errorListeners.forEach((listener) => listener(refillError));
+      throw refillError;
+    }
+  }
+
+  /**
+   * Requests one batch of values and appends their bytes
+   * @returns Number of bytes added
+   */
+  private async draw(): Promise<number> {
+    const result = await this.service.randomBatch(
+      this.batchSize,
+      this.request,
+      this.requestOptions,
+    );
+    if (!this.active) {
+      return 0;
+    }
+
+    let added = 0;
+    let newestSequence = this.lastSequence;
+
+    for (const value of result.data) {
+      const sequence = value.provenance?.sequence;
+      if (value.src === 'ipfs' && sequence !== undefined) {
+        if (sequence <= this.lastSequence) {
+          continue;
+        }
+        newestSequence = Math.max(newestSequence, sequence);
+      }
+
+      this.bits.push(parseEntropy(value.data, getEntropyEncoding(value.src)));
+      while (this.length < this.size) {
+        const byte = this.bits.take(8);
+        if (byte === null) {
+          break;
+        }
+        this.buffer[this.length++] = Number(byte);
+        added++;
+      }
+    }
+
+    this.lastSequence = newestSequence;
+    return added;
+  }
+}
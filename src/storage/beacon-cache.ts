@@ -0,0 +1,186 @@
+/**
+ * Block cache implementations for beacon traversal
+ */
+
+import type { BeaconBlockCache, BeaconData } from '../types';
+
+// CIDs are used as file names, so only plain multibase strings are accepted
+const CID_PATTERN = /^[A-Za-z0-9]+$/;
+
+/**
+ * In-memory least-recently-used block cache
+ *
+ * Index entries are dropped together with the blocks they point to.
+ */
+export class MemoryBeaconBlockCache implements BeaconBlockCache {
+  private readonly maxBlocks: number;
+  private blocks = new Map<string, BeaconData>();
+  private sequences = new Map<string, Map<number, string>>();
+
+  constructor(maxBlocks: number = 1000) {
+    this.maxBlocks = maxBlocks;
+  }
+
+  async get(cid: string): Promise<BeaconData | null> {
+    const block = this.blocks.get(cid);
+    if (!block) {
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.blocks.delete(cid);
+    this.blocks.set(cid, block);
+    return block;
+  }
+
+  async set(cid: string, block: BeaconData): Promise<void> {
+    this.blocks.delete(cid);
+    this.blocks.set(cid, block);
+
+    // Map iteration order is insertion order, so the oldest entries come first
+    for (const [oldestCid, oldest] of this.blocks) {
+      if (this.blocks.size <= this.maxBlocks) {
+        break;
+      }
+      this.blocks.delete(oldestCid);
+      for (const index of this.sequences.values()) {
+        if (index.get(oldest.sequence) === oldestCid) {
+          index.delete(oldest.sequence);
+        }
+      }
+    }
+  }
+
+  async index(beacon: string, sequence: number, cid: string): Promise<void> {
+    let index = this.sequences.get(beacon);
+    if (!index) {
+      index = new Map();
+      this.sequences.set(beacon, index);
+    }
+    index.set(sequence, cid);
+  }
+
+  async getCID(beacon: string, sequence: number): Promise<string | null> {
+    return this.sequences.get(beacon)?.get(sequence) || null;
+  }
+
+  async clear(): Promise<void> {
+    this.blocks.clear();
+    this.sequences.clear();
+  }
+}
+
+/**
+ * Node.js file system block cache
+ *
+ * Blocks are stored as `blocks/<cid>.json` and the sequence index as
+ * `sequences/<encoded beacon path>/<sequence>` files holding the CID, so
+ * entries are written independently and survive process restarts.
+ */
+export class FileBeaconBlockCache implements BeaconBlockCache {
+  private readonly directory: string;
+  private readonly fs: typeof import('fs');
+  private readonly path: typeof import('path');
+
+  constructor(directory: string = '.orbitport_beacon_cache') {
+    this.directory = directory;
+    // Dynamic import to avoid bundling fs in browser builds
+    try {
+      this.fs = require('fs');
+      this.path = require('path');
+    } catch (_error) {
+      throw new Error('File system access not available in this environment');
+    }
+  }
+
+  private blockFile(cid: string): string {
+    return this.path.join(this.directory, 'blocks', `${cid}.json`);
+  }
+
+  private sequenceDirectory(beacon: string): string {
+    // Dots are encoded too so that no beacon path maps to '.' or '..'
+    return this.path.join(
+      this.directory,
+      'sequences',
+      encodeURIComponent(beacon).replace(/\./g, '%2E'),
+    );
+  }
+
+  private sequenceFile(beacon: string, sequence: number): string {
+    return this.path.join(this.sequenceDirectory(beacon), String(sequence));
+  }
+
+  async get(cid: string): Promise<BeaconData | null> {
+    if (!CID_PATTERN.test(cid)) {
+      return null;
+    }
+
+    try {
+      const file = this.blockFile(cid);
+      if (!this.fs.existsSync(file)) {
+        return null;
+      }
+      return JSON.parse(this.fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      console.warn('Failed to read beacon block from cache:', error);
+      return null;
+    }
+  }
+
+  async set(cid: string, block: BeaconData): Promise<void> {
+    if (!CID_PATTERN.test(cid)) {
+      return;
+    }
+
+    try {
+      this.fs.mkdirSync(this.path.join(this.directory, 'blocks'), {
+        recursive: true,
+      });
+      this.fs.writeFileSync(this.blockFile(cid), JSON.stringify(block));
+    } catch (error) {
+      console.warn('Failed to write beacon block to cache:', error);
+    }
+  }
+
+  async index(beacon: string, sequence: number, cid: string): Promise<void> {
+    if (
+      !CID_PATTERN.test(cid) ||
+      !Number.isSafeInteger(sequence) ||
+      sequence < 0
+    ) {
+      return;
+    }
+
+    try {
+      this.fs.mkdirSync(this.sequenceDirectory(beacon), { recursive: true });
+      this.fs.writeFileSync(this.sequenceFile(beacon, sequence), cid);
+    } catch (error) {
+      console.warn('Failed to write beacon index to cache:', error);
+    }
+  }
+
+  async getCID(beacon: string, sequence: number): Promise<string | null> {
+    if (!Number.isSafeInteger(sequence) || sequence < 0) {
+      return null;
+    }
+
+    try {
+      const file = this.sequenceFile(beacon, sequence);
+      if (!this.fs.existsSync(file)) {
+        return null;
+      }
+      return this.fs.readFileSync(file, 'utf8').trim() || null;
+    } catch (error) {
+      console.warn('Failed to read beacon index from cache:', error);
+      return null;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      this.fs.rmSync(this.directory, { recursive: true, force: true });
+    } catch (error) {
+      console.warn('Failed to clear beacon block cache:', error);
+    }
+  }
+}
@@ -4,30 +4,37 @@
 
 import type { TokenStorage } from '../types';
 
+export * from './beacon-cache';
+
 /**
  * Browser localStorage implementation
  */
 export class BrowserTokenStorage implements TokenStorage {
+  readonly supportsKeys = true;
   private readonly key: string;
 
   constructor(key: string = 'orbitport_token') {
     this.key = key;
   }
 
-  async get(): Promise<string | null> {
+  private getItemKey(key?: string): string {
+    return key ? `${this.key}:${key}` : this.key;
+  }
+
+  async get(key?: string): Promise<string | null> {
     if (typeof window === 'undefined' || !window.localStorage) {
       return null;
     }
 
     try {
-      const stored = window.localStorage.getItem(this.key);
+      const stored = window.localStorage.getItem(this.getItemKey(key));
       if (!stored) return null;
 
       const tokenData = JSON.parse(stored);
 
       // Check if token is expired
       if (Date.now() >= tokenData.expires_at * 1000) {
-        await this.clear();
+        await this.clear(key);
         return null;
       }
 
@@ -38,7 +45,7 @@ export class BrowserTokenStorage implements TokenStorage {
     }
   }
 
-  async set(token: string, expiresAt: number): Promise<void> {
+  async set(token: string, expiresAt: number, key?: string): Promise<void> {
     if (typeof window === 'undefined' || !window.localStorage) {
       throw new Error('localStorage is not available');
     }
@@ -50,20 +57,23 @@ export class BrowserTokenStorage implements TokenStorage {
         stored_at: Date.now(),
       };
 
-      window.localStorage.setItem(this.key, JSON.stringify(tokenData));
+      window.localStorage.setItem(
+        this.getItemKey(key),
+        JSON.stringify(tokenData),
+      );
     } catch (error) {
       console.warn('Failed to store token in localStorage:', error);
       throw error;
     }
   }
 
-  async clear(): Promise<void> {
+  async clear(key?: string): Promise<void> {
     if (typeof window === 'undefined' || !window.localStorage) {
       return;
     }
 
     try {
-      window.localStorage.removeItem(this.key);
+      window.localStorage.removeItem(this.getItemKey(key));
     } catch (error) {
       console.warn('Failed to clear token from localStorage:', error);
     }
@@ -74,25 +84,24 @@ export class BrowserTokenStorage implements TokenStorage {
  * Node.js memory storage implementation
  */
 export class MemoryTokenStorage implements TokenStorage {
-  private token: string | null = null;
-  private expiresAt: number = 0;
+  readonly supportsKeys = true;
+  private tokens = new Map<string, { token: string; expiresAt: number }>();
 
-  async get(): Promise<string | null> {
-    if (!this.token || Date.now() >= this.expiresAt * 1000) {
-      this.token = null;
+  async get(key: string = ''): Promise<string | null> {
+    const entry = this.tokens.get(key);
+    if (!entry || Date.now() >= entry.expiresAt * 1000) {
+      this.tokens.delete(key);
       return null;
     }
-    return this.token;
+    return entry.token;
   }
 
-  async set(token: string, expiresAt: number): Promise<void> {
-    this.token = token;
-    this.expiresAt = expiresAt;
+  async set(token: string, expiresAt: number, key: string = ''): Promise<void> {
+    this.tokens.set(key, { token, expiresAt });
   }
 
-  async clear(): Promise<void> {
-    this.token = null;
-    this.expiresAt = 0;
+  async clear(key: string = ''): Promise<void> {
+    this.tokens.delete(key);
   }
 }
 
@@ -100,6 +109,7 @@ export class MemoryTokenStorage implements TokenStorage {
  * Node.js file system storage implementation
  */
 export class FileTokenStorage implements TokenStorage {
+  readonly supportsKeys = true;
   private readonly filePath: string;
   private readonly fs: any;
 
@@ -113,18 +123,24 @@ export class FileTokenStorage implements TokenStorage {
     }
   }
 
-  async get(): Promise<string | null> {
+  // Scoped tokens live next to the default file, with the key URL-encoded
+  private getPath(key?: string): string {
+    return key ? `${this.filePath}.${encodeURIComponent(key)}` : this.filePath;
+  }
+
+  async get(key?: string): Promise<string | null> {
+    const filePath = this.getPath(key);
     try {
-      if (!this.fs.existsSync(this.filePath)) {
+      if (!this.fs.existsSync(filePath)) {
         return null;
       }
 
-      const data = this.fs.readFileSync(this.filePath, 'utf8');
+      const data = this.fs.readFileSync(filePath, 'utf8');
       const tokenData = JSON.parse(data);
 
       // Check if token is expired
       if (Date.now() >= tokenData.expires_at * 1000) {
-        await this.clear();
+        await this.clear(key);
         return null;
       }
 
@@ -135,7 +151,7 @@ export class FileTokenStorage implements TokenStorage {
     }
   }
 
-  async set(token: string, expiresAt: number): Promise<void> {
+  async set(token: string, expiresAt: number, key?: string): Promise<void> {
     try {
       const tokenData = {
         access_token: token,
@@ -143,17 +159,21 @@ export class FileTokenStorage implements TokenStorage {
         stored_at: Date.now(),
       };
 
-      this.fs.writeFileSync(this.filePath, JSON.stringify(tokenData, null, 2));
+      this.fs.writeFileSync(
+        this.getPath(key),
+        JSON.stringify(tokenData, null, 2),
+      );
     } catch (error) {
       console.warn('Failed to store token in file:', error);
       throw error;
     }
   }
 
-  async clear(): Promise<void> {
+  async clear(key?: string): Promise<void> {
+    const filePath = this.getPath(key);
     try {
-      if (this.fs.existsSync(this.filePath)) {
-        this.fs.unlinkSync(this.filePath);
+      if (this.fs.existsSync(filePath)) {
+        this.fs.unlinkSync(filePath);
       }
     } catch (error) {
       console.warn('Failed to clear token file:', error);
@@ -163,32 +183,46 @@ export class FileTokenStorage implements TokenStorage {
 
 /**
  * Custom storage implementation that allows user-defined storage
+ *
+ * Scoped tokens are refused unless supportsKeys is set, since callbacks that
+ * ignore the key would return the default token for every scope.
  */
 export class CustomTokenStorage implements TokenStorage {
-  private getter: () => Promise<string | null>;
-  private setter: (token: string, expiresAt: number) => Promise<void>;
-  private clearer: () => Promise<void>;
+  readonly supportsKeys: boolean;
+  private getter: (key?: string) => Promise<string | null>;
+  private setter: (
+    token: string,
+    expiresAt: number,
+    key?: string,
+  ) => Promise<void>;
+  private clearer: (key?: string) => Promise<void>;
 
   constructor(
-    getter: () => Promise<string | null>,
-    setter: (token: string, expiresAt: number) => Promise<void>,
-    clearer: () => Promise<void>,
+    getter: (key?: string) => Promise<string | null>,
+    setter: (token: string, expiresAt: number, key?: string) => Promise<void>,
+    clearer: (key?: string) => Promise<void>,
+    supportsKeys: boolean = false,
   ) {
     this.getter = getter;
     this.setter = setter;
     this.clearer = clearer;
+    this.supportsKeys = supportsKeys;
   }
 
-  async get(): Promise<string | null> {
-    return this.getter();
+  // The key is only passed for scoped tokens, so callbacks written for a
+  // single token keep receiving the same arguments
+  async get(key?: string): Promise<string | null> {
+    return key === undefined ? this.getter() : this.getter(key);
   }
 
-  async set(token: string, expiresAt: number): Promise<void> {
-    return this.setter(token, expiresAt);
+  async set(token: string, expiresAt: number, key?: string): Promise<void> {
+    return key === undefined
+      ? this.setter(token, expiresAt)
+      : this.setter(token, expiresAt, key);
   }
 
-  async clear(): Promise<void> {
-    return this.clearer();
+  async clear(key?: string): Promise<void> {
+    return key === undefined ? this.clearer() : this.clearer(key);
   }
 }
 
@@ -8,17 +8,78 @@ import type { ErrorCode } from '../utils/errors';
 export interface OrbitportConfig {
   clientId?: string;
   clientSecret?: string;
+  credentials?: CredentialProvider; // Supplies credentials instead of clientId/clientSecret
   authUrl?: string;
   apiUrl?: string;
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
   ipfs?: IPFSConfig;
+  trustedPublicKeys?: string[]; // Pinned cTRNG provider keys (hex or base64, raw or SPKI)
+  fallback?: FallbackMode; // When API requests may be answered from IPFS (default: 'auto')
+  tokenRefresh?: TokenRefreshConfig; // Renews tokens in the background before they expire
+  tokenScopes?: ServiceTokenScopes; // Audience and scopes of the token each service uses
 }
 
+export interface TokenScope {
+  audience?: string; // Defaults to `${apiUrl}/api`
+  scope?: string; // Space-separated OAuth scopes (default: none)
+}
+
+export interface ServiceTokenScopes {
+  ctrng?: TokenScope;
+}
+
+export interface TokenRefreshConfig {
+  enabled: boolean;
+  refreshAt?: number; // Fraction of the token lifetime to refresh at (default: 0.8)
+  jitter?: number; // Random +/- fraction applied to the refresh delay (default: 0.1)
+  idleTimeout?: number; // Pause after this many ms without token use (default: 600000)
+}
+
+// 'auto' falls back to the IPFS beacon on any API failure or missing
+// credentials, 'never' fails instead, and 'ipfs-only-on-network-error' falls
+// back only when the API cannot be reached
+export type FallbackMode = 'auto' | 'never' | 'ipfs-only-on-network-error';
+
+export interface ClientSecretCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+// Authenticates with a signed JWT assertion (private_key_jwt) instead of a secret
+export interface PrivateKeyCredentials {
+  clientId: string;
+  privateKey: string | CryptoKey; // PKCS#8 PEM, or a CryptoKey usable for signing
+  algorithm: ClientAssertionAlgorithm;
+  keyId?: string; // Sent as the `kid` JWT header
+}
+
+export type ClientAssertionAlgorithm = 'RS256' | 'ES256';
+
+export type ClientCredentials = ClientSecretCredentials | PrivateKeyCredentials;
+
+// Called for every token request, so providers can pick up rotated secrets
+export interface CredentialProvider {
+  getCredentials(): Promise<ClientCredentials>;
+}
+
+// key identifies a token requested for a non-default audience or scopes;
+// without it the default token is read or written
 export interface TokenStorage {
-  get(): Promise<string | null>;
-  set(token: string, expiresAt: number): Promise<void>;
+  readonly supportsKeys?: boolean; // Required for scoped tokens: get, set and clear keep each key apart
+  get(key?: string): Promise<string | null>;
+  set(token: string, expiresAt: number, key?: string): Promise<void>;
+  clear(key?: string): Promise<void>;
+}
+
+// Cache for immutable beacon blocks, keyed by CID with a sequence index per
+// beacon path
+export interface BeaconBlockCache {
+  get(cid: string): Promise<BeaconData | null>;
+  set(cid: string, block: BeaconData): Promise<void>;
+  index(beacon: string, sequence: number, cid: string): Promise<void>; // Records a block reached from the beacon's head
+  getCID(beacon: string, sequence: number): Promise<string | null>;
   clear(): Promise<void>;
 }
 
@@ -34,6 +95,14 @@ export interface TokenData {
   access_token: string;
   expires_at: number;
   token_type: string;
+  scope?: string; // Granted scopes
+}
+
+export interface TokenInfo {
+  valid: boolean;
+  expiresAt?: number;
+  audience?: string;
+  scopes?: string[]; // Granted scopes, when known
 }
 
 // cTRNG (cosmic True Random Number Generator) types
@@ -48,10 +117,38 @@ export interface CTRNGResponse {
   };
   timestamp?: string;
   provider?: string;
+  provenance?: CTRNGProvenance; // Set by the SDK; not part of the API response
+}
+
+// Where a cTRNG value actually came from, for audit logs
+export interface CTRNGProvenance {
+  requestedSource: 'trng' | 'rng' | 'ipfs';
+  source: 'trng' | 'rng' | 'ipfs'; // Source that produced the value
+  fallbackReason?: string; // Why the requested source was not used
+  authMode: 'authenticated' | 'token-less'; // Whether API credentials are configured
+  beaconPath?: string; // IPFS only
+  cid?: string; // CID of the beacon block, when known (IPFS only)
+  sequence?: number; // IPFS only
+  requestedIndex?: number; // IPFS only
+  index?: number; // Index used after wrapping to the array length (IPFS only)
+  agreeingSources?: string[]; // IPFS nodes that returned the block used
+  quorumReached?: boolean; // Whether enough IPFS nodes agreed on the beacon head (IPFS only)
 }
 
 export interface APICTRNGRequest {
   src: 'trng' | 'rng';
+  verify?: boolean; // Verify the response signature against trustedPublicKeys
+  fallback?: FallbackMode; // Overrides OrbitportConfig.fallback
+}
+
+// Signature verification types
+export type SignatureAlgorithm = 'ECDSA-P256' | 'Ed25519';
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  algorithm?: SignatureAlgorithm;
+  publicKey?: string; // Hex encoded raw public key that was checked
+  reason?: string;
 }
 
 // IPFS-specific request interface with block traversal and index selection
@@ -65,6 +162,50 @@ export interface IPFSCTRNGRequest {
 // Union type for all CTRNG requests
 export type CTRNGRequest = APICTRNGRequest | IPFSCTRNGRequest;
 
+// Provenance of a single entropy value consumed by a derived result
+export interface EntropyChunk {
+  source: 'trng' | 'rng' | 'ipfs';
+  data: string;
+  sequence?: number; // Beacon sequence (IPFS only)
+  index?: number; // Index within the beacon cTRNG array (IPFS only)
+}
+
+// 'local' is the platform CSPRNG (crypto.getRandomValues)
+export type MixedEntropySource = 'trng' | 'rng' | 'ipfs' | 'local';
+
+export interface MixedEntropyRequest {
+  sources?: MixedEntropySource[]; // Default: trng (with credentials), ipfs and local
+  length?: number; // Output bytes (default: 64)
+  minSources?: number; // Sources that must succeed (default: all)
+  verify?: boolean; // Verify API signatures against trustedPublicKeys
+}
+
+export interface MixedEntropyInput {
+  source: MixedEntropySource;
+  bytes?: number; // Input length fed to the extractor
+  provenance?: CTRNGProvenance; // Remote sources only
+  error?: string; // Set when the source failed and was left out
+}
+
+export interface MixedEntropyResult {
+  data: Uint8Array;
+  inputs: MixedEntropyInput[];
+}
+
+export interface SeededGeneratorOptions {
+  beacon: number | 'INF'; // Beacon sequence to seed from
+  beaconPath?: string; // Beacon to read (defaults to the configured beacon)
+  label?: string; // Separates independent streams from the same block (default: '')
+}
+
+export interface RandomIntResult {
+  value: number;
+  min: number;
+  max: number;
+  rejections: number; // Draws discarded by rejection sampling
+  entropy: EntropyChunk[];
+}
+
 // IPFS Beacon types
 export interface BeaconData {
   previous?: string;
@@ -82,6 +223,8 @@ export interface IPFSSource {
   source: string;
   text?: string;
   error?: string;
+  code?: ErrorCode;
+  path?: string; // /ipfs/ path a validated IPNS record resolved to
 }
 
 export interface BeaconComparison {
@@ -92,6 +235,80 @@ export interface BeaconComparison {
     sequence?: { gateway: number; api: number };
     previous?: { gateway: string; api: string };
   };
+  quorum?: BeaconQuorum; // Agreement across every node read
+}
+
+export interface BeaconDivergence {
+  gateway: BeaconData;
+  api: BeaconData;
+  differences: BeaconComparison['differences'];
+  quorum?: BeaconQuorum;
+  forked?: boolean; // Neither head descends from the other
+  commonAncestor?: BeaconData; // Newest block both heads descend from
+}
+
+export type DivergenceResolver = (
+  divergence: BeaconDivergence,
+) => BeaconData | null | Promise<BeaconData | null>;
+
+export type DivergencePolicy =
+  | 'prefer-latest'
+  | 'require-match'
+  | 'prefer-gateway'
+  | 'prefer-api'
+  | DivergenceResolver;
+
+export interface QuorumVote {
+  source: string;
+  sequence?: number;
+  previous?: string;
+  error?: string; // Set when the node failed or returned tampered data
+}
+
+export interface BeaconQuorum {
+  beacon: BeaconData | null; // Block agreed on by the quorum, or null if none
+  reached: boolean;
+  threshold: number; // Agreeing nodes required
+  agreeing: number; // Nodes in the largest agreeing group
+  votes: QuorumVote[];
+}
+
+// Beacon chain verification types
+export interface ChainGap {
+  sequence: number; // Block whose previous link was followed
+  previousSequence: number; // Sequence of the block it links to
+  previous: string;
+}
+
+export interface ChainFork {
+  sequence: number;
+  path: string;
+  differences: NonNullable<BeaconComparison['differences']>;
+}
+
+export interface ChainTimestampViolation {
+  sequence: number;
+  timestamp: string;
+  previousSequence: number;
+  previousTimestamp: string;
+}
+
+export interface ChainUnresolvedLink {
+  sequence: number;
+  previous?: string;
+  error: string;
+}
+
+export interface ChainVerificationReport {
+  valid: boolean;
+  fromSequence: number;
+  toSequence: number;
+  headSequence: number;
+  blocksChecked: number;
+  gaps: ChainGap[];
+  forks: ChainFork[];
+  timestampViolations: ChainTimestampViolation[];
+  unresolved: ChainUnresolvedLink[];
 }
 
 // IPFS Configuration types
@@ -102,13 +319,34 @@ export interface IPFSConfig {
   enableFallback?: boolean;
   customNodes?: IPFSNode[];
   defaultBeaconPath?: string;
+  verifyIntegrity?: boolean; // Hash-check /ipfs/ gateway reads against their CID (default: true)
+  verifyIPNS?: boolean; // Resolve /ipns/ names through signed IPNS records (default: false)
+  blockCache?: BeaconBlockCache; // Cache for /ipfs/ blocks read during traversal
+  quorum?: number; // Nodes that must agree when comparing sources (default: majority)
+  nodeCooldown?: number; // ms to skip a node after repeated failures (default: 30000)
+  divergencePolicy?: DivergencePolicy; // How to pick a block when gateway and API disagree (default: 'prefer-latest')
 }
 
 export interface IPFSNode {
   url: string;
-  type: 'gateway' | 'api';
-  priority?: number;
-  timeout?: number;
+  type: 'gateway' | 'api' | 'car'; // 'car' nodes are trustless gateways read as gateway sources
+  priority?: number; // Lower values are read and preferred first (default: 0)
+  timeout?: number; // Overrides the request timeout for this node
+}
+
+export interface NodeHealth {
+  source: string; // e.g. gateway:https://ipfs.io
+  url: string;
+  type: 'gateway' | 'api' | 'car';
+  requests: number;
+  failures: number;
+  errorRate: number; // Moving average between 0 and 1
+  latency: number | null; // Moving average in ms, null until first read
+  lastSequence: number | null; // Last IPNS head sequence returned
+  staleness: number; // Sequences behind the highest head of the same IPNS path seen from any node
+  coolingDown: boolean; // Skipped after repeated failures
+  cooldownUntil: number | null;
+  score: number; // 0 to 1, higher is better
 }
 
 export interface IPFSBeaconRequest {
@@ -116,6 +354,28 @@ export interface IPFSBeaconRequest {
   sources?: ('gateway' | 'api' | 'both')[];
   timeout?: number;
   enableComparison?: boolean;
+  useCache?: boolean; // Serve /ipfs/ paths from the block cache (default: true)
+}
+
+export interface BeaconHistoryOptions extends RequestOptions {
+  path?: string; // Beacon head to start from (defaults to the configured beacon)
+  cid?: string; // Block CID to start from instead of the head
+  sources?: ('gateway' | 'api' | 'both')[];
+  limit?: number; // Maximum number of blocks to yield
+  untilSequence?: number; // Oldest sequence to yield (inclusive)
+  untilTimestamp?: Date | string; // Oldest timestamp to yield (inclusive)
+  signal?: AbortSignal; // Ends the iteration when aborted
+}
+
+export interface BeaconAtOptions extends RequestOptions {
+  path?: string; // Beacon head to search from (defaults to the configured beacon)
+  sources?: ('gateway' | 'api' | 'both')[];
+  direction?: 'before' | 'after'; // Block current at the instant (default), or the first one published after it
+}
+
+export interface BeaconWatchOptions extends RequestOptions {
+  interval?: number; // Poll interval in ms (default: 10000)
+  sources?: ('gateway' | 'api' | 'both')[];
 }
 
 // Error types
@@ -134,7 +394,12 @@ export interface APIError {
 
 // SDK event types
 export interface SDKEvent {
-  type: 'token_refresh' | 'provider_switch' | 'error' | 'retry';
+  type:
+    | 'token_refresh'
+    | 'provider_switch'
+    | 'error'
+    | 'retry'
+    | 'beacon_divergence';
   timestamp: number;
   data?: unknown;
 }
@@ -151,6 +416,31 @@ export interface RequestOptions {
 export interface ResponseMetadata {
   timestamp: number;
   request_id?: string;
+  entropy_mode?: EntropyMode; // How derived random bytes were produced
+  entropy?: Omit<EntropyChunk, 'data'>[]; // Where each entropy value behind derived random bytes came from
+  cid?: string; // CID of the beacon block read, when known
+  sources?: string[]; // IPFS nodes that returned the beacon block
+  quorum?: BeaconQuorum; // Node agreement, when IPFS sources were compared
+  items?: ResponseMetadata[]; // Metadata of the response behind each batch value (API batches only)
+  fallbackItems?: number[]; // Batch positions answered from IPFS instead of the API
+}
+
+// 'raw' concatenates cTRNG values, 'expand' stretches a cTRNG seed with HKDF-SHA256
+export type EntropyMode = 'raw' | 'expand';
+
+export interface RandomBytesOptions extends RequestOptions {
+  mode?: EntropyMode;
+}
+
+export interface BatchRequestOptions extends RequestOptions {
+  concurrency?: number; // Maximum API requests in flight (default: 4)
+}
+
+export interface EntropyPoolOptions extends BatchRequestOptions {
+  request?: Partial<CTRNGRequest>; // Source the pool draws from
+  size?: number; // Bytes held when full (default: 1024)
+  lowWater?: number; // Refill when fewer bytes remain (default: size / 4)
+  batchSize?: number; // cTRNG values requested per refill call (default: 32)
 }
 
 // Storage interfaces for different environments
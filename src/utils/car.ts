@@ -0,0 +1,255 @@
+/**
+ * CAR (content-addressable archive) parsing for trustless gateway responses
+ */
+
+import { CBORTag, CBOR_CID_TAG, decodeCBOR } from './cbor';
+import {
+  CID_CODECS,
+  ParsedCID,
+  decodeBlockContent,
+  decodeCIDBytes,
+  formatCID,
+  readCID,
+  verifyBlock,
+} from './cid';
+import { OrbitportSDKError, ERROR_CODES } from './errors';
+import { decodeProtobuf, decodeVarint } from './protobuf';
+
+/**
+ * A block stored in a CAR file
+ */
+export interface CARBlock {
+  cid: ParsedCID;
+  bytes: Uint8Array;
+}
+
+/**
+ * A parsed CARv1 file; blocks are keyed by their formatted CID
+ */
+export interface CARFile {
+  roots: string[];
+  blocks: Map<string, CARBlock>;
+}
+
+/**
+ * Parses a CARv1 file
+ *
+ * Blocks are not hash-checked here; call `verifyCAR` before trusting them.
+ * @param bytes - CAR file bytes
+ * @returns Roots and blocks of the archive
+ */
+export function parseCAR(bytes: Uint8Array): CARFile {
+  try {
+    const [headerLength, afterHeaderLength] = decodeVarint(bytes, 0);
+    const headerEnd = afterHeaderLength + headerLength;
+    if (headerEnd > bytes.length) {
+      throw new Error('truncated header');
+    }
+
+    const header = decodeCBOR(bytes.subarray(afterHeaderLength, headerEnd));
+    if (!header || typeof header !== 'object') {
+      throw new Error('header is not a map');
+    }
+    const { version, roots } = header as Record<string, unknown>;
+    if (version !== 1) {
+      throw new Error(`unsupported version ${String(version)}`);
+    }
+    if (!Array.isArray(roots) || roots.length === 0) {
+      throw new Error('header has no roots');
+    }
+
+    const blocks = new Map<string, CARBlock>();
+    let offset = headerEnd;
+    while (offset < bytes.length) {
+      const [sectionLength, afterSectionLength] = decodeVarint(bytes, offset);
+      const sectionEnd = afterSectionLength + sectionLength;
+      if (sectionEnd > bytes.length) {
+        throw new Error('truncated block section');
+      }
+
+      const section = bytes.subarray(afterSectionLength, sectionEnd);
+      const [cid, afterCID] = readCID(section, 0);
+      blocks.set(formatCID(cid), { cid, bytes: section.slice(afterCID) });
+      offset = sectionEnd;
+    }
+
+    return { roots: roots.map((root) => formatCID(decodeLink(root))), blocks };
+  } catch (error) {
+    throw new OrbitportSDKError(
+      `Invalid CAR: ${error instanceof Error ? error.message : String(error)}`,
+      ERROR_CODES.INVALID_RESPONSE,
+    );
+  }
+}
+
+/**
+ * Checks that every block in a CAR hashes to its CID
+ * @throws OrbitportSDKError with INTEGRITY_ERROR naming the first bad block
+ */
+export async function verifyCAR(car: CARFile): Promise<void> {
+  for (const [cid, block] of car.blocks) {
+    if (!(await verifyBlock(block.cid, block.bytes))) {
+      throw new OrbitportSDKError(
+        `Integrity check failed: CAR block does not match ${cid}`,
+        ERROR_CODES.INTEGRITY_ERROR,
+      );
+    }
+  }
+}
+
+/**
+ * Follows a path of UnixFS directory entries from a root block
+ * @param car - Verified CAR file
+ * @param root - CID to start from
+ * @param segments - Directory entry names
+ * @returns CID of the block the path points to
+ */
+export function resolveCARPath(
+  car: CARFile,
+  root: string,
+  segments: string[],
+): string {
+  let current = root;
+
+  for (const segment of segments) {
+    const block = getCARBlock(car, current);
+    const link = getLinks(block).find((l) => l.name === segment);
+    if (!link) {
+      throw new OrbitportSDKError(
+        `Path segment '${segment}' not found in ${current}`,
+        ERROR_CODES.INVALID_RESPONSE,
+      );
+    }
+    current = link.cid;
+  }
+
+  return current;
+}
+
+/**
+ * Extracts file content from a block in a verified CAR
+ *
+ * Unlike single-block reads, UnixFS files split across several blocks are
+ * reassembled from the blocks in the archive. dag-cbor blocks are converted to
+ * JSON, with CID links written as `/ipfs/<cid>` paths.
+ * @param car - Verified CAR file
+ * @param cid - CID of the file root
+ * @returns File content
+ */
+export function readCARContent(car: CARFile, cid: string): Uint8Array {
+  const block = getCARBlock(car, cid);
+
+  switch (block.cid.codec) {
+  case CID_CODECS.DAG_PB: {
+    const links = getLinks(block);
+    if (links.length === 0) {
+      return decodeBlockContent(block.cid, block.bytes);
+    }
+
+    const node = decodeProtobuf(block.bytes);
+    const data = node.find((field) => field.field === 1);
+    const inline =
+      data && data.value instanceof Uint8Array
+        ? decodeProtobuf(data.value).find((field) => field.field === 2)
+        : undefined;
+    const parts = [
+      inline && inline.value instanceof Uint8Array
+        ? inline.value
+        : new Uint8Array(0),
+      ...links.map((link) => readCARContent(car, link.cid)),
+    ];
+
+    const content = new Uint8Array(
+      parts.reduce((length, part) => length + part.length, 0),
+    );
+    let offset = 0;
+    for (const part of parts) {
+      content.set(part, offset);
+      offset += part.length;
+    }
+    return content;
+  }
+  case CID_CODECS.DAG_CBOR:
+    return new TextEncoder().encode(
+      JSON.stringify(linksToPaths(decodeCBOR(block.bytes))),
+    );
+  default:
+    return decodeBlockContent(block.cid, block.bytes);
+  }
+}
+
+function getCARBlock(car: CARFile, cid: string): CARBlock {
+  const block = car.blocks.get(cid);
+  if (!block) {
+    throw new OrbitportSDKError(
+      `Block ${cid} is missing from CAR`,
+      ERROR_CODES.INVALID_RESPONSE,
+    );
+  }
+  return block;
+}
+
+/**
+ * Lists the named links of a dag-pb block
+ */
+function getLinks(block: CARBlock): { cid: string; name: string }[] {
+  if (block.cid.codec !== CID_CODECS.DAG_PB) {
+    return [];
+  }
+
+  return decodeProtobuf(block.bytes)
+    .filter((field) => field.field === 2 && field.value instanceof Uint8Array)
+    .map((field) => {
+      const link = decodeProtobuf(field.value as Uint8Array);
+      const hash = link.find((f) => f.field === 1);
+      const name = link.find((f) => f.field === 2);
+      if (!hash || !(hash.value instanceof Uint8Array)) {
+        throw new OrbitportSDKError(
+          'Invalid dag-pb link: missing hash',
+          ERROR_CODES.INVALID_RESPONSE,
+        );
+      }
+      return {
+        cid: formatCID(decodeCIDBytes(hash.value)),
+        name:
+          name && name.value instanceof Uint8Array
+            ? new TextDecoder().decode(name.value)
+            : '',
+      };
+    });
+}
+
+/**
+ * Decodes a dag-cbor CID link (tag 42 over 0x00-prefixed CID bytes)
+ */
+function decodeLink(value: unknown): ParsedCID {
+  if (
+    !(value instanceof CBORTag) ||
+    value.tag !== CBOR_CID_TAG ||
+    !(value.value instanceof Uint8Array) ||
+    value.value[0] !== 0x00
+  ) {
+    throw new Error('invalid CID link');
+  }
+  return decodeCIDBytes(value.value.subarray(1));
+}
+
+/**
+ * Replaces dag-cbor CID links with `/ipfs/<cid>` paths
+ */
+function linksToPaths(value: unknown): unknown {
+  if (value instanceof CBORTag) {
+    return value.tag === CBOR_CID_TAG
+      ? `/ipfs/${formatCID(decodeLink(value))}`
+      : linksToPaths(value.value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(linksToPaths);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Uint8Array)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, linksToPaths(item)]),
+    );
+  }
+  return value;
+}
@@ -0,0 +1,163 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder for IPLD structures
+ */
+
+/**
+ * A tagged CBOR value, e.g. tag 42 for IPLD links
+ */
+export class CBORTag {
+  public readonly tag: number;
+  public readonly value: unknown;
+
+  constructor(tag: number, value: unknown) {
+    this.tag = tag;
+    this.value = value;
+  }
+}
+
+/**
+ * CBOR tag used by dag-cbor for CID links
+ */
+export const CBOR_CID_TAG = 42;
+
+/**
+ * Decodes a single CBOR data item
+ *
+ * Supports the subset used by dag-cbor: integers, byte and text strings,
+ * arrays, maps, tags, booleans, null and floats. Indefinite-length items are
+ * rejected, as dag-cbor forbids them.
+ * @param bytes - Encoded data item
+ * @returns Decoded value; byte strings are returned as Uint8Array
+ */
+export function decodeCBOR(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid CBOR: ${message}`);
+  };
+
+  const need = (length: number) => {
+    if (offset + length > bytes.length) {
+      fail('unexpected end of data');
+    }
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+    let value: number;
+    switch (info) {
+    case 24:
+      need(1);
+      value = view.getUint8(offset);
+      offset += 1;
+      return value;
+    case 25:
+      need(2);
+      value = view.getUint16(offset);
+      offset += 2;
+      return value;
+    case 26:
+      need(4);
+      value = view.getUint32(offset);
+      offset += 4;
+      return value;
+    case 27: {
+      need(8);
+      const big = view.getBigUint64(offset);
+      offset += 8;
+      if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+        fail('integer too large');
+      }
+      return Number(big);
+    }
+    default:
+      return fail(`unsupported additional info ${info}`);
+    }
+  };
+
+  const readItem = (): unknown => {
+    need(1);
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+    case 0:
+      return readLength(info);
+    case 1:
+      return -1 - readLength(info);
+    case 2: {
+      const length = readLength(info);
+      need(length);
+      const value = bytes.slice(offset, offset + length);
+      offset += length;
+      return value;
+    }
+    case 3: {
+      const length = readLength(info);
+      need(length);
+      const value = new TextDecoder().decode(
+        bytes.subarray(offset, offset + length),
+      );
+      offset += length;
+      return value;
+    }
+    case 4: {
+      const length = readLength(info);
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(readItem());
+      }
+      return items;
+    }
+    case 5: {
+      const length = readLength(info);
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < length; i++) {
+        const key = readItem();
+        if (typeof key !== 'string') {
+          fail('map keys must be strings');
+        }
+        map[key as string] = readItem();
+      }
+      return map;
+    }
+    case 6:
+      return new CBORTag(readLength(info), readItem());
+    default: {
+      // Major type 7: simple values and floats
+      switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 26: {
+        need(4);
+        const value = view.getFloat32(offset);
+        offset += 4;
+        return value;
+      }
+      case 27: {
+        need(8);
+        const value = view.getFloat64(offset);
+        offset += 8;
+        return value;
+      }
+      default:
+        return fail(`unsupported simple value ${info}`);
+      }
+    }
+    }
+  };
+
+  const value = readItem();
+  if (offset !== bytes.length) {
+    fail('trailing bytes after data item');
+  }
+  return value;
+}
@@ -0,0 +1,85 @@
+/**
+ * ChaCha20 block function (RFC 8439)
+ */
+
+/**
+ * Size of a ChaCha20 keystream block
+ */
+export const CHACHA20_BLOCK_BYTES = 64;
+
+// "expand 32-byte k"
+const SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+
+function quarterRound(
+  x: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+): void {
+  x[a] += x[b];
+  x[d] ^= x[a];
+  x[d] = (x[d] << 16) | (x[d] >>> 16);
+  x[c] += x[d];
+  x[b] ^= x[c];
+  x[b] = (x[b] << 12) | (x[b] >>> 20);
+  x[a] += x[b];
+  x[d] ^= x[a];
+  x[d] = (x[d] << 8) | (x[d] >>> 24);
+  x[c] += x[d];
+  x[b] ^= x[c];
+  x[b] = (x[b] << 7) | (x[b] >>> 25);
+}
+
+/**
+ * Computes one 64-byte ChaCha20 keystream block
+ * @param key - 32-byte key
+ * @param counter - 32-bit block counter
+ * @param nonce - 12-byte nonce
+ * @returns Keystream block
+ */
+export function chacha20Block(
+  key: Uint8Array,
+  counter: number,
+  nonce: Uint8Array,
+): Uint8Array {
+  if (key.length !== 32 || nonce.length !== 12) {
+    throw new Error('ChaCha20 requires a 32-byte key and a 12-byte nonce');
+  }
+
+  const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  const nonceView = new DataView(
+    nonce.buffer,
+    nonce.byteOffset,
+    nonce.byteLength,
+  );
+  const state = new Uint32Array(16);
+  state.set(SIGMA, 0);
+  for (let i = 0; i < 8; i++) {
+    state[4 + i] = keyView.getUint32(i * 4, true);
+  }
+  state[12] = counter;
+  for (let i = 0; i < 3; i++) {
+    state[13 + i] = nonceView.getUint32(i * 4, true);
+  }
+
+  const working = Uint32Array.from(state);
+  for (let round = 0; round < 10; round++) {
+    // Column rounds, then diagonal rounds
+    quarterRound(working, 0, 4, 8, 12);
+    quarterRound(working, 1, 5, 9, 13);
+    quarterRound(working, 2, 6, 10, 14);
+    quarterRound(working, 3, 7, 11, 15);
+    quarterRound(working, 0, 5, 10, 15);
+    quarterRound(working, 1, 6, 11, 12);
+    quarterRound(working, 2, 7, 8, 13);
+    quarterRound(working, 3, 4, 9, 14);
+  }
+
+  const block = new Uint8Array(CHACHA20_BLOCK_BYTES);
+  const view = new DataView(block.buffer);
+  for (let i = 0; i < 16; i++) {
+    view.setUint32(i * 4, (working[i] + state[i]) >>> 0, true);
+  }
+  return block;
+}
@@ -0,0 +1,340 @@
+/**
+ * CID parsing and block verification utilities
+ */
+
+import { OrbitportSDKError, ERROR_CODES } from './errors';
+import { decodeProtobuf, decodeVarint, encodeVarint } from './protobuf';
+
+/**
+ * Multicodec codes for the block formats the SDK can decode and for IPNS names
+ */
+export const CID_CODECS = {
+  RAW: 0x55,
+  DAG_PB: 0x70,
+  DAG_CBOR: 0x71,
+  JSON: 0x0200,
+  DAG_JSON: 0x0129,
+  LIBP2P_KEY: 0x72,
+} as const;
+
+/**
+ * Multihash function codes supported for verification
+ */
+export const MULTIHASH_CODES = {
+  IDENTITY: 0x00,
+  SHA2_256: 0x12,
+} as const;
+
+/**
+ * A parsed content identifier
+ */
+export interface ParsedCID {
+  version: 0 | 1;
+  codec: number;
+  multihash: {
+    code: number;
+    digest: Uint8Array;
+  };
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE36_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Decodes an unpadded RFC 4648 base32 string (case-insensitive)
+ */
+export function decodeBase32(input: string): Uint8Array {
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of input.toLowerCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      output.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Encodes bytes as an unpadded lowercase RFC 4648 base32 string
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+
+  return output;
+}
+
+/**
+ * Decodes a string in the given alphabet treated as a big-endian number
+ */
+function decodeBaseN(input: string, alphabet: string): Uint8Array {
+  const base = BigInt(alphabet.length);
+  let value = BigInt(0);
+
+  for (const char of input) {
+    const digit = alphabet.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid character: ${char}`);
+    }
+    value = value * base + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value & BigInt(0xff)));
+    value >>= BigInt(8);
+  }
+
+  // Leading zero digits encode leading zero bytes
+  let leadingZeros = 0;
+  while (leadingZeros < input.length && input[leadingZeros] === alphabet[0]) {
+    leadingZeros++;
+  }
+
+  return Uint8Array.from([...new Array(leadingZeros).fill(0), ...bytes]);
+}
+
+/**
+ * Decodes a base58btc string
+ */
+export function decodeBase58(input: string): Uint8Array {
+  return decodeBaseN(input, BASE58_ALPHABET);
+}
+
+/**
+ * Decodes a base36 string (case-insensitive), as used for IPNS key names
+ */
+export function decodeBase36(input: string): Uint8Array {
+  return decodeBaseN(input.toLowerCase(), BASE36_ALPHABET);
+}
+
+/**
+ * Encodes bytes as a base58btc string
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = BigInt(0);
+  for (const byte of bytes) {
+    value = (value << BigInt(8)) + BigInt(byte);
+  }
+
+  let output = '';
+  while (value > BigInt(0)) {
+    output = BASE58_ALPHABET[Number(value % BigInt(58))] + output;
+    value /= BigInt(58);
+  }
+
+  // Leading zero bytes are encoded as leading zero digits
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    output = BASE58_ALPHABET[0] + output;
+  }
+
+  return output;
+}
+
+/**
+ * Parses binary CID bytes
+ */
+export function decodeCIDBytes(bytes: Uint8Array): ParsedCID {
+  // CIDv0 is a bare sha2-256 multihash
+  if (bytes.length === 34 && bytes[0] === 0x12 && bytes[1] === 0x20) {
+    return {
+      version: 0,
+      codec: CID_CODECS.DAG_PB,
+      multihash: { code: MULTIHASH_CODES.SHA2_256, digest: bytes.slice(2) },
+    };
+  }
+
+  const [version, afterVersion] = decodeVarint(bytes, 0);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}`);
+  }
+  const [codec, afterCodec] = decodeVarint(bytes, afterVersion);
+  const [code, afterCode] = decodeVarint(bytes, afterCodec);
+  const [length, afterLength] = decodeVarint(bytes, afterCode);
+  const digest = bytes.slice(afterLength, afterLength + length);
+
+  if (digest.length !== length) {
+    throw new Error('Truncated CID multihash');
+  }
+
+  return { version: 1, codec, multihash: { code, digest } };
+}
+
+/**
+ * Reads a binary CID embedded in a larger buffer, e.g. a CAR section
+ * @param bytes - Buffer to read from
+ * @param offset - Position of the first CID byte
+ * @returns Tuple of the parsed CID and the position after it
+ */
+export function readCID(
+  bytes: Uint8Array,
+  offset: number = 0,
+): [ParsedCID, number] {
+  // CIDv0 is always a 34-byte sha2-256 multihash
+  if (bytes[offset] === 0x12 && bytes[offset + 1] === 0x20) {
+    if (offset + 34 > bytes.length) {
+      throw new Error('Truncated CID multihash');
+    }
+    return [decodeCIDBytes(bytes.subarray(offset, offset + 34)), offset + 34];
+  }
+
+  const [, afterVersion] = decodeVarint(bytes, offset);
+  const [, afterCodec] = decodeVarint(bytes, afterVersion);
+  const [, afterCode] = decodeVarint(bytes, afterCodec);
+  const [length, afterLength] = decodeVarint(bytes, afterCode);
+  const end = afterLength + length;
+
+  return [decodeCIDBytes(bytes.subarray(offset, end)), end];
+}
+
+/**
+ * Formats a CID as a string: base58btc for CIDv0 and base32 for CIDv1
+ */
+export function formatCID(cid: ParsedCID): string {
+  const multihash = [
+    ...encodeVarint(cid.multihash.code),
+    ...encodeVarint(cid.multihash.digest.length),
+    ...cid.multihash.digest,
+  ];
+
+  if (cid.version === 0) {
+    return encodeBase58(Uint8Array.from(multihash));
+  }
+
+  return `b${encodeBase32(
+    Uint8Array.from([...encodeVarint(1), ...encodeVarint(cid.codec), ...multihash]),
+  )}`;
+}
+
+/**
+ * Parses a string CID (CIDv0 base58btc or CIDv1 base32/base36/base58btc
+ * multibase)
+ */
+export function parseCID(cid: string): ParsedCID {
+  try {
+    if (cid.startsWith('Qm') && cid.length === 46) {
+      return decodeCIDBytes(decodeBase58(cid));
+    }
+
+    const prefix = cid[0];
+    const body = cid.slice(1);
+    if (prefix === 'b' || prefix === 'B') {
+      return decodeCIDBytes(decodeBase32(body));
+    }
+    if (prefix === 'k' || prefix === 'K') {
+      return decodeCIDBytes(decodeBase36(body));
+    }
+    if (prefix === 'z') {
+      return decodeCIDBytes(decodeBase58(body));
+    }
+
+    throw new Error(`Unsupported multibase prefix '${prefix}'`);
+  } catch (error) {
+    throw new OrbitportSDKError(
+      `Invalid CID ${cid}: ${error instanceof Error ? error.message : String(error)}`,
+      ERROR_CODES.INVALID_REQUEST,
+    );
+  }
+}
+
+/**
+ * Extracts the CID from an /ipfs/<cid> path with no subpath
+ * @returns The CID string, or null if the path cannot be verified directly
+ */
+export function getPathCID(path: string): string | null {
+  const match = /^\/ipfs\/([^/?#]+)\/?$/.exec(path);
+  return match ? match[1] : null;
+}
+
+/**
+ * Checks that block bytes hash to the multihash in a CID
+ */
+export async function verifyBlock(
+  cid: ParsedCID,
+  block: Uint8Array,
+): Promise<boolean> {
+  const { code, digest } = cid.multihash;
+  let actual: Uint8Array;
+
+  if (code === MULTIHASH_CODES.SHA2_256) {
+    actual = new Uint8Array(
+      await crypto.subtle.digest('SHA-256', Uint8Array.from(block)),
+    );
+  } else if (code === MULTIHASH_CODES.IDENTITY) {
+    actual = block;
+  } else {
+    throw new OrbitportSDKError(
+      `Unsupported multihash function 0x${code.toString(16)}`,
+      ERROR_CODES.INTEGRITY_ERROR,
+    );
+  }
+
+  return (
+    actual.length === digest.length &&
+    actual.every((byte, index) => byte === digest[index])
+  );
+}
+
+/**
+ * Extracts file content from a verified block according to its codec
+ *
+ * Raw, JSON and dag-json blocks are the content itself. dag-pb blocks are
+ * decoded as single-block UnixFS files; files split across several blocks
+ * cannot be verified from one block and are rejected.
+ */
+export function decodeBlockContent(cid: ParsedCID, block: Uint8Array): Uint8Array {
+  switch (cid.codec) {
+  case CID_CODECS.RAW:
+  case CID_CODECS.JSON:
+  case CID_CODECS.DAG_JSON:
+    return block;
+  case CID_CODECS.DAG_PB: {
+    const node = decodeProtobuf(block);
+    if (node.some((field) => field.field === 2)) {
+      throw new OrbitportSDKError(
+        'Multi-block UnixFS files are not supported for verified reads',
+        ERROR_CODES.INVALID_RESPONSE,
+      );
+    }
+    const data = node.find((field) => field.field === 1);
+    if (!data || !(data.value instanceof Uint8Array)) {
+      return new Uint8Array(0);
+    }
+    const unixfs = decodeProtobuf(data.value);
+    const content = unixfs.find((field) => field.field === 2);
+    return content && content.value instanceof Uint8Array
+      ? content.value
+      : new Uint8Array(0);
+  }
+  default:
+    throw new OrbitportSDKError(
+      `Unsupported CID codec 0x${cid.codec.toString(16)}`,
+      ERROR_CODES.INVALID_RESPONSE,
+    );
+  }
+}
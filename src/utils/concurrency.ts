@@ -0,0 +1,39 @@
+/**
+ * Concurrency utilities for the Orbitport SDK
+ */
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ *
+ * Results keep the order of the input items. The first rejection rejects the
+ * returned promise and stops scheduling further items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async(): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    () => worker(),
+  );
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,213 @@
+/**
+ * Entropy conversion utilities for the Orbitport SDK
+ */
+
+import { OrbitportSDKError, ERROR_CODES } from './errors';
+
+/**
+ * Encodings used by cTRNG sources: the API returns hex strings, while
+ * IPFS beacons publish plain decimal integers
+ */
+export type EntropyEncoding = 'hex' | 'decimal';
+
+/**
+ * Width of IPFS beacon cTRNG values, which are unsigned 32-bit integers
+ */
+export const BEACON_VALUE_BITS = 32;
+
+/**
+ * Uniformly distributed bits extracted from a single entropy value
+ */
+export interface EntropyBits {
+  value: bigint;
+  bits: number;
+}
+
+/**
+ * Returns the encoding used by a cTRNG source
+ */
+export function getEntropyEncoding(src: string): EntropyEncoding {
+  return src === 'ipfs' ? 'decimal' : 'hex';
+}
+
+/**
+ * Returns the number of bits needed to represent a non-negative bigint
+ */
+export function bitLength(value: bigint): number {
+  let bits = 0;
+  let remaining = value;
+  while (remaining > BigInt(0)) {
+    remaining >>= BigInt(1);
+    bits++;
+  }
+  return bits;
+}
+
+/**
+ * Extracts uniformly distributed bits from a cTRNG value
+ *
+ * Hex values contribute four bits per digit. Decimal beacon values are read
+ * at their fixed width of `BEACON_VALUE_BITS`, leading zeros included, so
+ * they are uniform as long as the beacon draws over the full 32-bit range.
+ * Decimal values outside that range are rejected.
+ */
+export function parseEntropy(
+  data: string,
+  encoding: EntropyEncoding,
+): EntropyBits {
+  const trimmed = data.trim();
+
+  if (encoding === 'hex') {
+    const hex = trimmed.replace(/^0x/i, '');
+    if (!/^[0-9a-f]+$/i.test(hex)) {
+      throw new OrbitportSDKError(
+        'Invalid entropy: expected hex string',
+        ERROR_CODES.INVALID_RESPONSE,
+      );
+    }
+    return { value: BigInt(`0x${hex}`), bits: hex.length * 4 };
+  }
+
+  if (!/^\d+$/.test(trimmed)) {
+    throw new OrbitportSDKError(
+      'Invalid entropy: expected decimal integer string',
+      ERROR_CODES.INVALID_RESPONSE,
+    );
+  }
+
+  const value = BigInt(trimmed);
+  if (bitLength(value) > BEACON_VALUE_BITS) {
+    throw new OrbitportSDKError(
+      `Invalid entropy: decimal value exceeds ${BEACON_VALUE_BITS} bits`,
+      ERROR_CODES.INVALID_RESPONSE,
+    );
+  }
+
+  return { value, bits: BEACON_VALUE_BITS };
+}
+
+/**
+ * Bit buffer that hands out entropy in exact bit counts
+ */
+export class EntropyBitPool {
+  private value: bigint = BigInt(0);
+  private size: number = 0;
+
+  /**
+   * Number of unused bits in the pool
+   */
+  get available(): number {
+    return this.size;
+  }
+
+  /**
+   * Appends bits to the pool
+   */
+  push(entropy: EntropyBits): void {
+    if (entropy.bits === 0) {
+      return;
+    }
+    this.value = (this.value << BigInt(entropy.bits)) | entropy.value;
+    this.size += entropy.bits;
+  }
+
+  /**
+   * Removes and returns the given number of bits, or null if not enough are available
+   */
+  take(bits: number): bigint | null {
+    if (bits > this.size) {
+      return null;
+    }
+
+    this.size -= bits;
+    const result = this.value >> BigInt(this.size);
+    this.value &= (BigInt(1) << BigInt(this.size)) - BigInt(1);
+    return result;
+  }
+}
+
+/**
+ * Minimum seed size for seeded expansion (256 bits)
+ */
+export const EXPANSION_SEED_BYTES = 32;
+
+// HKDF-SHA256 can expand at most 255 hash blocks per derivation
+const HKDF_MAX_BYTES = 255 * 32;
+
+/**
+ * Expands a seed into an arbitrary number of bytes using HKDF-SHA256
+ *
+ * Outputs longer than a single HKDF derivation allows are produced in
+ * segments whose info string carries a segment counter.
+ */
+export async function expandEntropy(
+  seed: Uint8Array,
+  length: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    Uint8Array.from(seed),
+    'HKDF',
+    false,
+    ['deriveBits'],
+  );
+  const encoder = new TextEncoder();
+  const output = new Uint8Array(length);
+
+  for (let offset = 0, segment = 0; offset < length; segment++) {
+    const size = Math.min(HKDF_MAX_BYTES, length - offset);
+    const bits = await crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0),
+        info: encoder.encode(`orbitport-ctrng-bytes:${segment}`),
+      },
+      key,
+      size * 8,
+    );
+    output.set(new Uint8Array(bits), offset);
+    offset += size;
+  }
+
+  return output;
+}
+
+/**
+ * Size of a mixed entropy digest (SHA-512)
+ */
+export const MIX_DIGEST_BYTES = 64;
+
+const MIX_DOMAIN = 'orbitport-entropy-mix:v1';
+
+/**
+ * Combines entropy from several sources with SHA-512
+ *
+ * Each input's label and bytes are written with a 32-bit big-endian length
+ * prefix, so different input lists never produce the same preimage. The
+ * digest stays unpredictable as long as any single input is.
+ * @param inputs - Labelled inputs, hashed in order
+ * @returns 64-byte digest
+ */
+export async function mixEntropy(
+  inputs: { label: string; bytes: Uint8Array }[],
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const fields = [
+    encoder.encode(MIX_DOMAIN),
+    ...inputs.flatMap(({ label, bytes }) => [encoder.encode(label), bytes]),
+  ];
+  const preimage = new Uint8Array(
+    fields.reduce((length, field) => length + 4 + field.length, 0),
+  );
+  const view = new DataView(preimage.buffer);
+
+  let offset = 0;
+  for (const field of fields) {
+    view.setUint32(offset, field.length);
+    preimage.set(field, offset + 4);
+    offset += 4 + field.length;
+  }
+
+  return new Uint8Array(await crypto.subtle.digest('SHA-512', preimage));
+}
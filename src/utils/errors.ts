@@ -56,6 +56,7 @@ export const ERROR_CODES = {
   RATE_LIMITED: 'RATE_LIMITED',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
   INVALID_RESPONSE: 'INVALID_RESPONSE',
+  INTEGRITY_ERROR: 'INTEGRITY_ERROR',
 
   // Storage errors
   STORAGE_ERROR: 'STORAGE_ERROR',
@@ -70,6 +71,9 @@ export const ERROR_CODES = {
   CTRNG_ERROR: 'CTRNG_ERROR',
   PROVIDER_UNAVAILABLE: 'PROVIDER_UNAVAILABLE',
   FALLBACK_FAILED: 'FALLBACK_FAILED',
+  SIGNATURE_INVALID: 'SIGNATURE_INVALID',
+  BEACON_DIVERGENCE: 'BEACON_DIVERGENCE',
+  QUORUM_NOT_REACHED: 'QUORUM_NOT_REACHED',
 
   // Unknown errors
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
@@ -161,6 +165,19 @@ export function isRetryableError(error: OrbitportSDKError): boolean {
   return retryableCodes.includes(error.code);
 }
 
+/**
+ * Determines if an error means the server could not be reached
+ */
+export function isNetworkError(error: OrbitportSDKError): boolean {
+  const networkCodes: ErrorCode[] = [
+    ERROR_CODES.NETWORK_ERROR,
+    ERROR_CODES.TIMEOUT,
+    ERROR_CODES.CONNECTION_FAILED,
+  ];
+
+  return networkCodes.includes(error.code);
+}
+
 /**
  * Determines if an error is related to authentication
  */
@@ -198,6 +215,18 @@ export function formatErrorMessage(error: OrbitportSDKError): string {
     return 'Service is temporarily unavailable. Please try again later.';
   case ERROR_CODES.INVALID_CONFIG:
     return 'Invalid SDK configuration. Please check your settings.';
+  case ERROR_CODES.INTEGRITY_ERROR:
+    return 'Data returned by an IPFS source does not match its content identifier.';
+  case ERROR_CODES.SIGNATURE_INVALID:
+    return 'Response signature could not be verified against the trusted public keys.';
+  case ERROR_CODES.BEACON_DIVERGENCE:
+    return 'IPFS sources returned different beacon blocks.';
+  case ERROR_CODES.QUORUM_NOT_REACHED:
+    return 'Not enough IPFS nodes agreed on the beacon block.';
+  case ERROR_CODES.PROVIDER_UNAVAILABLE:
+    return 'The requested cTRNG provider could not be reached.';
+  case ERROR_CODES.FALLBACK_FAILED:
+    return 'The requested cTRNG source failed and fallback is disabled.';
   default:
     return baseMessage;
   }
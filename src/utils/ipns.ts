@@ -0,0 +1,264 @@
+/**
+ * IPNS record parsing and validation
+ */
+
+import { decodeCBOR } from './cbor';
+import {
+  CID_CODECS,
+  MULTIHASH_CODES,
+  decodeBase58,
+  parseCID,
+  verifyBlock,
+} from './cid';
+import { OrbitportSDKError, ERROR_CODES } from './errors';
+import { ProtobufField, decodeProtobuf, decodeVarint } from './protobuf';
+
+// Records larger than this are rejected by the IPNS spec
+const MAX_RECORD_SIZE = 10 * 1024;
+
+// libp2p PublicKey.Type values
+const KEY_TYPE_RSA = 0;
+const KEY_TYPE_ED25519 = 1;
+
+const SIGNATURE_PREFIX = new TextEncoder().encode('ipns-signature:');
+
+/**
+ * A validated IPNS record
+ */
+export interface IPNSRecord {
+  value: string; // Path the name points at, e.g. /ipfs/<cid>
+  sequence: number;
+  validity: string; // ISO 8601 end of life
+  ttl: number; // Suggested cache lifetime in ms; only logged, resolutions are not cached
+}
+
+/**
+ * Decodes the multihash of an IPNS name
+ *
+ * Accepts CIDv1 names with the libp2p-key codec (e.g. base36 `k51...` or
+ * `k2k4r8...`) and base58btc peer IDs (`12D3KooW...`, `Qm...`).
+ */
+function parseIPNSName(name: string): { code: number; digest: Uint8Array } {
+  if (/^(12D3Koo|Qm)/.test(name)) {
+    const bytes = decodeBase58(name);
+    const [code, afterCode] = decodeVarint(bytes, 0);
+    const [length, afterLength] = decodeVarint(bytes, afterCode);
+    return { code, digest: bytes.slice(afterLength, afterLength + length) };
+  }
+
+  const cid = parseCID(name);
+  if (cid.codec !== CID_CODECS.LIBP2P_KEY) {
+    throw new OrbitportSDKError(
+      `${name} is not an IPNS key name`,
+      ERROR_CODES.INVALID_REQUEST,
+    );
+  }
+  return cid.multihash;
+}
+
+/**
+ * Reads a field of a protobuf message
+ */
+function getField(
+  fields: ProtobufField[],
+  field: number,
+): number | Uint8Array | undefined {
+  return fields.find((f) => f.field === field)?.value;
+}
+
+const invalid = (message: string): never => {
+  throw new OrbitportSDKError(
+    `Invalid IPNS record: ${message}`,
+    ERROR_CODES.INVALID_RESPONSE,
+  );
+};
+
+const rejected = (message: string): never => {
+  throw new OrbitportSDKError(
+    `IPNS record rejected: ${message}`,
+    ERROR_CODES.INTEGRITY_ERROR,
+  );
+};
+
+/**
+ * Imports the key that signs records for a name
+ *
+ * Ed25519 names embed the key as an identity multihash. Names that hash a
+ * larger key, such as RSA names, need the key from the record, which must
+ * match the hash.
+ * @returns The key and the WebCrypto algorithm to verify signatures with
+ */
+async function getPublicKey(
+  name: string,
+  recordKey: Uint8Array | undefined,
+): Promise<{ key: CryptoKey; algorithm: AlgorithmIdentifier }> {
+  const multihash = parseIPNSName(name);
+  let encoded: Uint8Array;
+
+  if (multihash.code === MULTIHASH_CODES.IDENTITY) {
+    encoded = multihash.digest;
+  } else if (
+    recordKey &&
+    (await verifyBlock(
+      { version: 1, codec: CID_CODECS.LIBP2P_KEY, multihash },
+      recordKey,
+    ))
+  ) {
+    encoded = recordKey;
+  } else {
+    return rejected(`public key does not match ${name}`);
+  }
+
+  const publicKey = decodeProtobuf(encoded);
+  const type = getField(publicKey, 1) || 0;
+  const data = getField(publicKey, 2);
+  if (!(data instanceof Uint8Array)) {
+    return invalid('public key has no data');
+  }
+
+  try {
+    switch (type) {
+    case KEY_TYPE_ED25519:
+      return {
+        key: await crypto.subtle.importKey(
+          'raw',
+          Uint8Array.from(data),
+          { name: 'Ed25519' },
+          false,
+          ['verify'],
+        ),
+        algorithm: { name: 'Ed25519' },
+      };
+    case KEY_TYPE_RSA:
+      return {
+        key: await crypto.subtle.importKey(
+          'spki',
+          Uint8Array.from(data),
+          { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+          false,
+          ['verify'],
+        ),
+        algorithm: { name: 'RSASSA-PKCS1-v1_5' },
+      };
+    default:
+      return rejected(`unsupported key type ${String(type)}`);
+    }
+  } catch (error) {
+    if (error instanceof OrbitportSDKError) {
+      throw error;
+    }
+    return invalid('malformed public key');
+  }
+}
+
+/**
+ * Validates a raw IPNS record for a name
+ *
+ * Checks the V2 signature over the record's CBOR data against the key of the
+ * name, that the protobuf fields agree with the signed data and that the
+ * record has not expired. Records with only a V1 signature are rejected.
+ * @param name - IPNS name the record was requested for
+ * @param bytes - Serialized IpnsEntry protobuf
+ * @param now - Current time in ms
+ * @returns The signed record fields
+ * @throws OrbitportSDKError with INTEGRITY_ERROR if the record is not
+ * authentic or has expired, or INVALID_RESPONSE if it is malformed
+ */
+export async function verifyIPNSRecord(
+  name: string,
+  bytes: Uint8Array,
+  now: number = Date.now(),
+): Promise<IPNSRecord> {
+  if (bytes.length > MAX_RECORD_SIZE) {
+    return invalid(`larger than ${MAX_RECORD_SIZE} bytes`);
+  }
+
+  let entry: ProtobufField[];
+  let signed: Record<string, unknown>;
+  try {
+    entry = decodeProtobuf(bytes);
+    const data = getField(entry, 9);
+    signed =
+      data instanceof Uint8Array
+        ? (decodeCBOR(data) as Record<string, unknown>)
+        : {};
+  } catch (error) {
+    return invalid(error instanceof Error ? error.message : String(error));
+  }
+
+  const data = getField(entry, 9);
+  if (!(data instanceof Uint8Array)) {
+    return invalid('missing signed data');
+  }
+  const signature = getField(entry, 8);
+  if (!(signature instanceof Uint8Array)) {
+    return rejected('missing V2 signature');
+  }
+
+  const recordKey = getField(entry, 7);
+  const { key, algorithm } = await getPublicKey(
+    name,
+    recordKey instanceof Uint8Array ? recordKey : undefined,
+  );
+  const message = new Uint8Array(SIGNATURE_PREFIX.length + data.length);
+  message.set(SIGNATURE_PREFIX, 0);
+  message.set(data, SIGNATURE_PREFIX.length);
+
+  if (
+    !(await crypto.subtle.verify(
+      algorithm,
+      key,
+      Uint8Array.from(signature),
+      message,
+    ))
+  ) {
+    return rejected(`invalid signature for ${name}`);
+  }
+
+  const { Value, Validity, ValidityType, Sequence, TTL } = signed;
+  if (
+    !(Value instanceof Uint8Array) ||
+    !(Validity instanceof Uint8Array) ||
+    typeof Sequence !== 'number'
+  ) {
+    return invalid('signed data is missing Value, Validity or Sequence');
+  }
+
+  // Unsigned V1 fields, when present, must match the signed data
+  const sameBytes = (a: unknown, b: Uint8Array) =>
+    a === undefined ||
+    (a instanceof Uint8Array &&
+      a.length === b.length &&
+      a.every((byte, index) => byte === b[index]));
+  const sequence = getField(entry, 5);
+  if (
+    !sameBytes(getField(entry, 1), Value) ||
+    !sameBytes(getField(entry, 4), Validity) ||
+    (sequence !== undefined && sequence !== Sequence)
+  ) {
+    return rejected('unsigned fields do not match the signed data');
+  }
+
+  if ((ValidityType || 0) !== 0) {
+    return invalid(`unsupported validity type ${String(ValidityType)}`);
+  }
+  // RFC 3339 with nanoseconds; Date only parses up to milliseconds
+  const expires = Date.parse(
+    new TextDecoder().decode(Validity).replace(/(\.\d{3})\d+/, '$1'),
+  );
+  if (Number.isNaN(expires)) {
+    return invalid('malformed validity');
+  }
+  if (expires <= now) {
+    return rejected(
+      `record for ${name} expired at ${new Date(expires).toISOString()}`,
+    );
+  }
+
+  return {
+    value: new TextDecoder().decode(Value),
+    sequence: Sequence,
+    validity: new Date(expires).toISOString(),
+    ttl: typeof TTL === 'number' ? Math.floor(TTL / 1e6) : 0,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Health tracking for IPFS gateway and API nodes
+ */
+
+import type { IPFSNode, NodeHealth } from '../types';
+
+// Weight of the newest sample in the moving averages
+const SMOOTHING = 0.3;
+
+// Consecutive failures after which a node is skipped for the cool-down period
+const FAILURE_THRESHOLD = 3;
+
+interface NodeStats {
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  errorRate: number;
+  latency: number | null;
+  lastSequence: number | null;
+  heads: Map<string, number>; // Last head sequence per IPNS path
+  cooldownUntil: number;
+}
+
+/**
+ * Returns the source label used for a node in reads and health reports
+ */
+export function getNodeSource(node: IPFSNode): string {
+  return `${node.type}:${node.url}`;
+}
+
+/**
+ * Tracks latency, error rate and staleness per node
+ *
+ * Latency and error rate are exponential moving averages, so a node recovers
+ * its score gradually after an outage. Staleness is how many sequences a
+ * node's last head of an IPNS path is behind the highest head of the same
+ * path seen from any node, taking the path it lags most on.
+ */
+export class NodeHealthTracker {
+  private stats = new Map<string, NodeStats>();
+  private maxSequences = new Map<string, number>();
+  private cooldown: number;
+
+  constructor(cooldown: number = 30000) {
+    this.cooldown = cooldown;
+  }
+
+  private getStats(source: string): NodeStats {
+    let stats = this.stats.get(source);
+    if (!stats) {
+      stats = {
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        errorRate: 0,
+        latency: null,
+        lastSequence: null,
+        heads: new Map(),
+        cooldownUntil: 0,
+      };
+      this.stats.set(source, stats);
+    }
+    return stats;
+  }
+
+  private recordLatency(stats: NodeStats, latency: number): void {
+    stats.requests++;
+    stats.latency =
+      stats.latency === null
+        ? latency
+        : stats.latency + SMOOTHING * (latency - stats.latency);
+  }
+
+  /**
+   * Records a successful read
+   */
+  recordSuccess(source: string, latency: number): void {
+    const stats = this.getStats(source);
+    this.recordLatency(stats, latency);
+    stats.consecutiveFailures = 0;
+    stats.errorRate -= SMOOTHING * stats.errorRate;
+  }
+
+  /**
+   * Records a failed read
+   * @param source - Node source label
+   * @param latency - Time until the failure in ms
+   * @param severe - Start the cool-down immediately (e.g. for tampered data)
+   */
+  recordFailure(
+    source: string,
+    latency: number,
+    severe: boolean = false,
+  ): void {
+    const stats = this.getStats(source);
+    this.recordLatency(stats, latency);
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.errorRate += SMOOTHING * (1 - stats.errorRate);
+
+    if (severe || stats.consecutiveFailures >= FAILURE_THRESHOLD) {
+      stats.cooldownUntil = Date.now() + this.cooldown;
+    }
+  }
+
+  /**
+   * Records the sequence of an IPNS head returned by a node
+   * @param source - Node source label
+   * @param path - IPNS path that was read
+   * @param sequence - Sequence of the returned head
+   */
+  recordSequence(source: string, path: string, sequence: number): void {
+    const stats = this.getStats(source);
+    stats.lastSequence = sequence;
+    stats.heads.set(path, sequence);
+    if (sequence > (this.maxSequences.get(path) ?? -Infinity)) {
+      this.maxSequences.set(path, sequence);
+    }
+  }
+
+  /**
+   * Whether a node is being skipped after repeated failures
+   */
+  isCoolingDown(source: string): boolean {
+    return (this.stats.get(source)?.cooldownUntil || 0) > Date.now();
+  }
+
+  /**
+   * Updates the cool-down period for future failures
+   */
+  setCooldown(cooldown: number): void {
+    this.cooldown = cooldown;
+  }
+
+  /**
+   * Returns the health report for a node
+   *
+   * The score ranges from 0 to 1 (higher is better) and falls with the error
+   * rate, with latency (halved at one second) and with staleness (halved at
+   * one sequence behind). Nodes that were never read score 1.
+   */
+  getHealth(node: IPFSNode): NodeHealth {
+    const source = getNodeSource(node);
+    const stats = this.getStats(source);
+    let staleness = 0;
+    for (const [path, sequence] of stats.heads) {
+      staleness = Math.max(
+        staleness,
+        (this.maxSequences.get(path) ?? sequence) - sequence,
+      );
+    }
+    const coolingDown = this.isCoolingDown(source);
+    const score =
+      (1 - stats.errorRate) /
+      (1 + (stats.latency || 0) / 1000) /
+      (1 + staleness);
+
+    return {
+      source,
+      url: node.url,
+      type: node.type,
+      requests: stats.requests,
+      failures: stats.failures,
+      errorRate: stats.errorRate,
+      latency: stats.latency,
+      lastSequence: stats.lastSequence,
+      staleness,
+      coolingDown,
+      cooldownUntil: coolingDown ? stats.cooldownUntil : null,
+      score,
+    };
+  }
+}
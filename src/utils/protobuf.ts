@@ -0,0 +1,105 @@
+/**
+ * Minimal protobuf decoding utilities for IPFS data structures
+ */
+
+/**
+ * A decoded protobuf field; length-delimited fields keep their raw bytes
+ */
+export interface ProtobufField {
+  field: number;
+  wireType: number;
+  value: number | Uint8Array;
+}
+
+/**
+ * Decodes an unsigned LEB128 varint
+ * @param bytes - Buffer to read from
+ * @param offset - Position of the first varint byte
+ * @returns Tuple of the decoded value and the position after the varint
+ */
+export function decodeVarint(bytes: Uint8Array, offset: number = 0): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+
+  for (;;) {
+    if (position >= bytes.length) {
+      throw new Error('Unexpected end of varint');
+    }
+    const byte = bytes[position++];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, position];
+    }
+    multiplier *= 128;
+    if (multiplier > Number.MAX_SAFE_INTEGER) {
+      throw new Error('Varint too large');
+    }
+  }
+}
+
+/**
+ * Encodes an unsigned LEB128 varint
+ */
+export function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  let remaining = value;
+
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+
+  return bytes;
+}
+
+/**
+ * Decodes the top-level fields of a protobuf message
+ *
+ * Only varint (0), 64-bit (1), length-delimited (2) and 32-bit (5) wire
+ * types are supported; fixed-width values are returned as raw bytes.
+ */
+export function decodeProtobuf(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [key, afterKey] = decodeVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key & 0x07;
+    offset = afterKey;
+
+    switch (wireType) {
+    case 0: {
+      const [value, next] = decodeVarint(bytes, offset);
+      fields.push({ field, wireType, value });
+      offset = next;
+      break;
+    }
+    case 1:
+    case 5: {
+      const size = wireType === 1 ? 8 : 4;
+      if (offset + size > bytes.length) {
+        throw new Error('Unexpected end of protobuf message');
+      }
+      fields.push({ field, wireType, value: bytes.slice(offset, offset + size) });
+      offset += size;
+      break;
+    }
+    case 2: {
+      const [length, next] = decodeVarint(bytes, offset);
+      if (next + length > bytes.length) {
+        throw new Error('Unexpected end of protobuf message');
+      }
+      fields.push({ field, wireType, value: bytes.slice(next, next + length) });
+      offset = next + length;
+      break;
+    }
+    default:
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
@@ -3,7 +3,7 @@
  */
 
 import type { OrbitportError } from '../types';
-import { isRetryableError } from './errors';
+import { OrbitportSDKError, ERROR_CODES, isRetryableError } from './errors';
 
 /**
  * Retry configuration options
@@ -130,6 +130,63 @@ export async function withCustomRetry<T>(
   throw lastError!;
 }
 
+/**
+ * Determines if the server rejected the token of an authenticated call
+ */
+function isTokenRejected(error: unknown): error is OrbitportSDKError {
+  return (
+    error instanceof OrbitportSDKError &&
+    (error.status === 401 || error.status === 403)
+  );
+}
+
+/**
+ * Runs an authenticated call, replaying it once with a new token when the
+ * server rejects the token with 401 or 403
+ *
+ * Covers tokens that were revoked or rotated before their expiry.
+ * @param token - Token for the first attempt
+ * @param fn - Call to run with a token
+ * @param refreshToken - Obtains a replacement for the rejected token
+ * @throws OrbitportSDKError with TOKEN_EXPIRED if the new token is rejected
+ * too
+ */
+export async function withTokenRefresh<T>(
+  token: string,
+  fn: (token: string) => Promise<T>,
+  refreshToken: (rejectedToken: string) => Promise<string | null>,
+): Promise<T> {
+  try {
+    return await fn(token);
+  } catch (error) {
+    if (!isTokenRejected(error)) {
+      throw error;
+    }
+  }
+
+  const newToken = await refreshToken(token);
+  if (!newToken) {
+    throw new OrbitportSDKError(
+      'No valid authentication token available',
+      ERROR_CODES.AUTH_FAILED,
+    );
+  }
+
+  try {
+    return await fn(newToken);
+  } catch (error) {
+    if (isTokenRejected(error)) {
+      throw new OrbitportSDKError(
+        'Authentication token was rejected after refresh',
+        ERROR_CODES.TOKEN_EXPIRED,
+        error.status,
+        error,
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Creates a retry wrapper with specific configuration
  */
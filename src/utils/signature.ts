@@ -0,0 +1,260 @@
+/**
+ * Signature verification utilities for cTRNG responses
+ */
+
+import type {
+  CTRNGResponse,
+  SignatureAlgorithm,
+  SignatureVerificationResult,
+} from '../types';
+
+/**
+ * Decodes a hex or base64/base64url encoded binary value
+ */
+export function decodeBinary(value: string): Uint8Array {
+  const trimmed = value.trim();
+  const hex = trimmed.replace(/^0x/i, '');
+
+  if (hex.length % 2 === 0 && /^[0-9a-f]*$/i.test(hex)) {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  const base64 = trimmed.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encodes bytes as a lowercase hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    '',
+  );
+}
+
+/**
+ * Maps a response `signature.algo` value to a supported algorithm
+ *
+ * When no algorithm is given it is inferred from the key: 32-byte raw keys
+ * are Ed25519, anything else is treated as ECDSA P-256.
+ */
+export function resolveSignatureAlgorithm(
+  algo: string | undefined,
+  keyLength: number,
+): SignatureAlgorithm | null {
+  if (!algo) {
+    return keyLength === 32 ? 'Ed25519' : 'ECDSA-P256';
+  }
+
+  const normalized = algo.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (['ed25519', 'eddsa'].includes(normalized)) {
+    return 'Ed25519';
+  }
+  if (
+    [
+      'ecdsa',
+      'ecdsap256',
+      'ecdsasha256',
+      'es256',
+      'p256',
+      'secp256r1',
+      'prime256v1',
+    ].includes(normalized)
+  ) {
+    return 'ECDSA-P256';
+  }
+
+  return null;
+}
+
+/**
+ * Imports a raw or SPKI encoded public key
+ */
+async function importPublicKey(
+  keyBytes: Uint8Array,
+  algorithm: SignatureAlgorithm,
+): Promise<CryptoKey> {
+  const isRaw =
+    algorithm === 'Ed25519'
+      ? keyBytes.length === 32
+      : keyBytes.length === 65 && keyBytes[0] === 0x04;
+  const params =
+    algorithm === 'Ed25519'
+      ? { name: 'Ed25519' }
+      : { name: 'ECDSA', namedCurve: 'P-256' };
+
+  return crypto.subtle.importKey(
+    isRaw ? 'raw' : 'spki',
+    Uint8Array.from(keyBytes),
+    params,
+    true,
+    ['verify'],
+  );
+}
+
+/**
+ * Converts a DER encoded ECDSA signature to the IEEE P1363 (r || s) format
+ * expected by WebCrypto
+ */
+function derToP1363(der: Uint8Array): Uint8Array {
+  if (der.length === 64) {
+    return der;
+  }
+
+  if (der[0] !== 0x30) {
+    throw new Error('Invalid ECDSA signature encoding');
+  }
+
+  const readInteger = (offset: number): [Uint8Array, number] => {
+    if (der[offset] !== 0x02) {
+      throw new Error('Invalid ECDSA signature encoding');
+    }
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    while (value.length > 32 && value[0] === 0) {
+      value = value.slice(1);
+    }
+    if (value.length > 32) {
+      throw new Error('Invalid ECDSA signature encoding');
+    }
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return [padded, offset + 2 + length];
+  };
+
+  const sequenceStart = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+  const [r, next] = readInteger(sequenceStart);
+  const [s] = readInteger(next);
+
+  const signature = new Uint8Array(64);
+  signature.set(r, 0);
+  signature.set(s, 32);
+  return signature;
+}
+
+/**
+ * Verifies a signature over a message with a single public key
+ */
+async function verifyWithKey(
+  key: CryptoKey,
+  algorithm: SignatureAlgorithm,
+  signature: Uint8Array,
+  message: Uint8Array,
+): Promise<boolean> {
+  if (algorithm === 'Ed25519') {
+    return crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      Uint8Array.from(signature),
+      Uint8Array.from(message),
+    );
+  }
+
+  return crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    Uint8Array.from(derToP1363(signature)),
+    Uint8Array.from(message),
+  );
+}
+
+/**
+ * Imports a public key and returns it with its hex encoded raw form, which
+ * is used to compare keys regardless of their original encoding
+ */
+async function loadPublicKey(
+  keyBytes: Uint8Array,
+  algorithm: SignatureAlgorithm,
+): Promise<{ key: CryptoKey; hex: string } | null> {
+  try {
+    const key = await importPublicKey(keyBytes, algorithm);
+    const raw = await crypto.subtle.exportKey('raw', key);
+    return { key, hex: toHex(new Uint8Array(raw)) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifies the signature of a cTRNG API response against pinned public keys
+ *
+ * The signature is checked over the UTF-8 bytes of `response.data`. If the
+ * response names a public key (`signature.pk`) it must be one of the trusted
+ * keys; if it is empty, every trusted key is tried. Keys and signatures may
+ * be hex or base64 encoded, and keys may be raw or SPKI.
+ * @param response - cTRNG response to verify
+ * @param trustedPublicKeys - Pinned public keys of the provider
+ * @returns Verification result; never throws for invalid signatures
+ */
+export async function verifyCTRNGSignature(
+  response: CTRNGResponse,
+  trustedPublicKeys: string[] = [],
+): Promise<SignatureVerificationResult> {
+  const { signature } = response;
+
+  if (!signature || !signature.value) {
+    return { valid: false, reason: 'Response is not signed' };
+  }
+
+  if (trustedPublicKeys.length === 0) {
+    return { valid: false, reason: 'No trusted public keys configured' };
+  }
+
+  try {
+    const signatureBytes = decodeBinary(signature.value);
+    const message = new TextEncoder().encode(response.data);
+    const trustedBytes = trustedPublicKeys.map(decodeBinary);
+    const responseKey = signature.pk ? decodeBinary(signature.pk) : null;
+
+    for (const keyBytes of responseKey ? [responseKey] : trustedBytes) {
+      const algorithm = resolveSignatureAlgorithm(
+        signature.algo,
+        keyBytes.length,
+      );
+      if (!algorithm) {
+        return {
+          valid: false,
+          reason: `Unsupported signature algorithm: ${signature.algo}`,
+        };
+      }
+
+      const candidate = await loadPublicKey(keyBytes, algorithm);
+      if (!candidate) {
+        continue;
+      }
+
+      if (responseKey) {
+        const trusted = await Promise.all(
+          trustedBytes.map((bytes) => loadPublicKey(bytes, algorithm)),
+        );
+        if (!trusted.some((key) => key?.hex === candidate.hex)) {
+          return {
+            valid: false,
+            algorithm,
+            publicKey: candidate.hex,
+            reason: 'Response public key is not trusted',
+          };
+        }
+      }
+
+      if (
+        await verifyWithKey(candidate.key, algorithm, signatureBytes, message)
+      ) {
+        return { valid: true, algorithm, publicKey: candidate.hex };
+      }
+    }
+
+    return { valid: false, reason: 'Signature does not match response data' };
+  } catch (error) {
+    return {
+      valid: false,
+      reason: error instanceof Error ? error.message : 'Verification failed',
+    };
+  }
+}
@@ -8,9 +8,27 @@ import type {
   ValidationResult,
   RequestOptions,
   IPFSCTRNGRequest,
+  APICTRNGRequest,
+  BeaconHistoryOptions,
+  EntropyPoolOptions,
+  FallbackMode,
+  MixedEntropyRequest,
+  MixedEntropySource,
+  SeededGeneratorOptions,
 } from '../types';
 import { createValidationError } from './errors';
 
+const FALLBACK_MODES: FallbackMode[] = [
+  'auto',
+  'never',
+  'ipfs-only-on-network-error',
+];
+
+const MIXED_SOURCES: MixedEntropySource[] = ['trng', 'rng', 'ipfs', 'local'];
+
+// Largest byte output served in one call (1 MiB)
+export const MAX_BYTE_LENGTH = 1024 * 1024;
+
 /**
  * Validates the Orbitport configuration
  */
@@ -46,6 +64,20 @@ export function validateConfig(
     errors.push('Both clientId and clientSecret must be provided together');
   }
 
+  if (config.credentials !== undefined) {
+    if (
+      !config.credentials ||
+      typeof config.credentials.getCredentials !== 'function'
+    ) {
+      errors.push('credentials must implement getCredentials()');
+    }
+    if (config.clientId || config.clientSecret) {
+      errors.push(
+        'credentials cannot be combined with clientId and clientSecret',
+      );
+    }
+  }
+
   if (config.authUrl) {
     if (typeof config.authUrl !== 'string') {
       errors.push('authUrl must be a string');
@@ -83,6 +115,109 @@ export function validateConfig(
     errors.push('retryDelay must be a positive number');
   }
 
+  if (config.trustedPublicKeys !== undefined) {
+    if (
+      !Array.isArray(config.trustedPublicKeys) ||
+      config.trustedPublicKeys.some(
+        (key) => typeof key !== 'string' || key.trim().length === 0,
+      )
+    ) {
+      errors.push('trustedPublicKeys must be an array of non-empty strings');
+    }
+  }
+
+  if (
+    config.fallback !== undefined &&
+    !FALLBACK_MODES.includes(config.fallback)
+  ) {
+    errors.push(
+      "fallback must be 'auto', 'never' or 'ipfs-only-on-network-error'",
+    );
+  }
+
+  if (config.tokenRefresh !== undefined) {
+    const { enabled, refreshAt, jitter, idleTimeout } = config.tokenRefresh;
+    if (typeof enabled !== 'boolean') {
+      errors.push('tokenRefresh.enabled must be a boolean');
+    }
+    if (
+      refreshAt !== undefined &&
+      (typeof refreshAt !== 'number' || !(refreshAt > 0 && refreshAt < 1))
+    ) {
+      errors.push('tokenRefresh.refreshAt must be a number between 0 and 1');
+    }
+    if (
+      jitter !== undefined &&
+      (typeof jitter !== 'number' || !(jitter >= 0 && jitter < 1))
+    ) {
+      errors.push('tokenRefresh.jitter must be a number in [0, 1)');
+    }
+    if (
+      idleTimeout !== undefined &&
+      (typeof idleTimeout !== 'number' || !(idleTimeout > 0))
+    ) {
+      errors.push('tokenRefresh.idleTimeout must be a positive number');
+    }
+  }
+
+  if (config.tokenScopes !== undefined) {
+    const scopes = Object.values(config.tokenScopes || {});
+    if (
+      !config.tokenScopes ||
+      typeof config.tokenScopes !== 'object' ||
+      scopes.some(
+        (scope) =>
+          !scope ||
+          (scope.audience !== undefined &&
+            (typeof scope.audience !== 'string' ||
+              scope.audience.trim().length === 0)) ||
+          (scope.scope !== undefined &&
+            (typeof scope.scope !== 'string' ||
+              scope.scope.trim().length === 0)),
+      )
+    ) {
+      errors.push(
+        'tokenScopes entries must have a non-empty string audience and scope when set',
+      );
+    }
+  }
+
+  if (config.ipfs?.customNodes !== undefined) {
+    if (
+      !Array.isArray(config.ipfs.customNodes) ||
+      config.ipfs.customNodes.some(
+        (node) =>
+          !node ||
+          !isValidUrl(node.url) ||
+          !['gateway', 'api', 'car'].includes(node.type),
+      )
+    ) {
+      errors.push(
+        "ipfs.customNodes must be an array of nodes with a valid url and type 'gateway', 'api' or 'car'",
+      );
+    }
+  }
+
+  if (
+    config.ipfs?.quorum !== undefined &&
+    (!Number.isSafeInteger(config.ipfs.quorum) || config.ipfs.quorum <= 0)
+  ) {
+    errors.push('ipfs.quorum must be a positive integer');
+  }
+
+  const divergencePolicy = config.ipfs?.divergencePolicy;
+  if (
+    divergencePolicy !== undefined &&
+    typeof divergencePolicy !== 'function' &&
+    !['prefer-latest', 'require-match', 'prefer-gateway', 'prefer-api'].includes(
+      divergencePolicy,
+    )
+  ) {
+    errors.push(
+      "ipfs.divergencePolicy must be 'prefer-latest', 'require-match', 'prefer-gateway', 'prefer-api' or a function",
+    );
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -101,8 +236,36 @@ export function validateCTRNGRequest(
     errors.push('src must be one of: trng, rng, ipfs');
   }
 
+  if (
+    'verify' in request &&
+    request.verify !== undefined &&
+    typeof request.verify !== 'boolean'
+  ) {
+    errors.push('verify must be a boolean');
+  }
+
+  if (
+    'fallback' in request &&
+    request.fallback !== undefined &&
+    !FALLBACK_MODES.includes(request.fallback)
+  ) {
+    errors.push(
+      "fallback must be 'auto', 'never' or 'ipfs-only-on-network-error'",
+    );
+  }
+
   // Validate IPFS-specific parameters only if src is "ipfs"
   if (request.src === 'ipfs') {
+    if ('verify' in request && request.verify) {
+      errors.push(
+        "verify can only be used with src: 'trng' or 'rng' (IPFS beacon values are not signed)",
+      );
+    }
+
+    if ('fallback' in request) {
+      errors.push("fallback can only be used with src: 'trng' or 'rng'");
+    }
+
     const ipfsRequest = request as IPFSCTRNGRequest;
 
     if (ipfsRequest.beaconPath) {
@@ -155,6 +318,232 @@ export function validateCTRNGRequest(
   };
 }
 
+/**
+ * Validates the bounds of a random integer range
+ */
+export function validateIntRange(min: number, max: number): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Number.isSafeInteger(min)) {
+    errors.push('min must be a safe integer');
+  }
+
+  if (!Number.isSafeInteger(max)) {
+    errors.push('max must be a safe integer');
+  }
+
+  if (errors.length === 0 && min > max) {
+    errors.push('min must be less than or equal to max');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates a requested number of random bytes
+ *
+ * Lengths above MAX_BYTE_LENGTH are rejected before anything is allocated.
+ */
+export function validateByteLength(length: number): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Number.isSafeInteger(length) || length <= 0) {
+    errors.push('length must be a positive integer');
+  } else if (length > MAX_BYTE_LENGTH) {
+    errors.push(`length must not exceed ${MAX_BYTE_LENGTH} bytes`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates a mixed entropy request
+ */
+export function validateMixedRequest(
+  request: MixedEntropyRequest,
+): ValidationResult {
+  const errors: string[] = [];
+  const { sources, length, minSources } = request;
+
+  if (sources !== undefined) {
+    if (
+      !Array.isArray(sources) ||
+      sources.length === 0 ||
+      sources.some((source) => !MIXED_SOURCES.includes(source))
+    ) {
+      errors.push('sources must be a non-empty list of: trng, rng, ipfs, local');
+    } else if (new Set(sources).size !== sources.length) {
+      errors.push('sources must not contain duplicates');
+    }
+  }
+
+  if (length !== undefined) {
+    errors.push(...validateByteLength(length).errors);
+  }
+
+  if (
+    minSources !== undefined &&
+    (!Number.isSafeInteger(minSources) ||
+      minSources <= 0 ||
+      (Array.isArray(sources) && minSources > sources.length))
+  ) {
+    errors.push(
+      'minSources must be a positive integer no larger than the number of sources',
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates seeded generator options
+ */
+export function validateSeededGeneratorOptions(
+  options: SeededGeneratorOptions,
+): ValidationResult {
+  const errors: string[] = [];
+  const { beacon, beaconPath, label } = options;
+
+  if (beacon !== 'INF' && (!Number.isSafeInteger(beacon) || beacon < 0)) {
+    errors.push("beacon must be 'INF' or a non-negative integer");
+  }
+
+  if (
+    beaconPath !== undefined &&
+    (typeof beaconPath !== 'string' ||
+      (!beaconPath.startsWith('/ipns/') && !beaconPath.startsWith('/ipfs/')))
+  ) {
+    errors.push(
+      'beaconPath must be a valid IPFS/IPNS path starting with /ipns/ or /ipfs/',
+    );
+  }
+
+  if (label !== undefined && typeof label !== 'string') {
+    errors.push('label must be a string');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates batch request parameters
+ */
+export function validateBatchRequest(
+  count: number,
+  concurrency?: number,
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Number.isSafeInteger(count) || count <= 0) {
+    errors.push('count must be a positive integer');
+  }
+
+  if (
+    concurrency !== undefined &&
+    (!Number.isSafeInteger(concurrency) || concurrency <= 0)
+  ) {
+    errors.push('concurrency must be a positive integer');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates entropy pool options
+ */
+export function validateEntropyPoolOptions(
+  options: EntropyPoolOptions,
+): ValidationResult {
+  const errors: string[] = [];
+  const size = options.size ?? 1024;
+
+  if (!Number.isSafeInteger(size) || size <= 0) {
+    errors.push('size must be a positive integer');
+  }
+
+  if (
+    options.batchSize !== undefined &&
+    (!Number.isSafeInteger(options.batchSize) || options.batchSize <= 0)
+  ) {
+    errors.push('batchSize must be a positive integer');
+  }
+
+  if (
+    options.concurrency !== undefined &&
+    (!Number.isSafeInteger(options.concurrency) || options.concurrency <= 0)
+  ) {
+    errors.push('concurrency must be a positive integer');
+  }
+
+  if (
+    options.lowWater !== undefined &&
+    (!Number.isSafeInteger(options.lowWater) ||
+      options.lowWater < 0 ||
+      options.lowWater >= size)
+  ) {
+    errors.push('lowWater must be a non-negative integer below size');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates beacon history options
+ */
+export function validateHistoryOptions(
+  options: BeaconHistoryOptions,
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (
+    options.limit !== undefined &&
+    (!Number.isSafeInteger(options.limit) || options.limit <= 0)
+  ) {
+    errors.push('limit must be a positive integer');
+  }
+
+  if (
+    options.untilSequence !== undefined &&
+    (!Number.isSafeInteger(options.untilSequence) || options.untilSequence < 0)
+  ) {
+    errors.push('untilSequence must be a non-negative integer');
+  }
+
+  if (
+    options.untilTimestamp !== undefined &&
+    isNaN(new Date(options.untilTimestamp).getTime())
+  ) {
+    errors.push('untilTimestamp must be a valid date');
+  }
+
+  if (options.path && options.cid) {
+    errors.push('path and cid cannot be used together');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Validates request options
  */
@@ -189,6 +578,15 @@ export function validateRequestOptions(
   };
 }
 
+/**
+ * Checks if API credentials are configured
+ */
+export function hasCredentials(config: OrbitportConfig): boolean {
+  return Boolean(
+    config.credentials || (config.clientId && config.clientSecret),
+  );
+}
+
 /**
  * Validates URL format
  */
@@ -264,16 +662,22 @@ export function sanitizeConfig(
   return {
     clientId: config.clientId?.trim(),
     clientSecret: config.clientSecret?.trim(),
+    credentials: config.credentials,
     authUrl: config.authUrl || getDefaultAuthUrl(),
     apiUrl: config.apiUrl || getDefaultApiUrl(),
     timeout: config.timeout || 30000,
     retryAttempts: config.retryAttempts || 3,
     retryDelay: config.retryDelay || 1000,
+    trustedPublicKeys: config.trustedPublicKeys,
+    fallback: config.fallback,
+    tokenRefresh: config.tokenRefresh,
+    tokenScopes: config.tokenScopes,
     ipfs: {
       gateway: 'https://ipfs.io',
       apiUrl: 'http://65.109.2.230:5001',
       timeout: 30000,
       enableFallback: true,
+      verifyIntegrity: true,
       defaultBeaconPath:
         '/ipns/k2k4r8pigrw8i34z63om8f015tt5igdq0c46xupq8spp1bogt35k5vhe',
       ...config.ipfs,
@@ -337,8 +741,13 @@ export function sanitizeCTRNGRequest(
       index: ipfsRequest.index || 0,
     };
   } else {
+    const apiRequest = request as Partial<APICTRNGRequest>;
     return {
-      src: request.src || 'trng',
+      src: apiRequest.src || 'trng',
+      ...(apiRequest.verify !== undefined && { verify: apiRequest.verify }),
+      ...(apiRequest.fallback !== undefined && {
+        fallback: apiRequest.fallback,
+      }),
     };
   }
 }
@@ -0,0 +1,249 @@
+/**
+ * Test helpers for building IPFS blocks and CIDs
+ */
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+export const encodeBase32 = (bytes: Uint8Array): string => {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) {
+    output += BASE32[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const encodeVarint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+export const sha256 = async (bytes: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.digest("SHA-256", Uint8Array.from(bytes)));
+
+export const createCIDBytes = async (codec: number, block: Uint8Array) =>
+  Uint8Array.from([
+    0x01,
+    ...encodeVarint(codec),
+    0x12,
+    0x20,
+    ...(await sha256(block)),
+  ]);
+
+export const createCID = async (codec: number, block: Uint8Array) =>
+  `b${encodeBase32(await createCIDBytes(codec, block))}`;
+
+/**
+ * Encodes a length-delimited protobuf field
+ */
+export const pbField = (field: number, bytes: Uint8Array) =>
+  Uint8Array.from([
+    ...encodeVarint((field << 3) | 2),
+    ...encodeVarint(bytes.length),
+    ...bytes,
+  ]);
+
+/**
+ * Encodes a varint protobuf field
+ */
+export const pbVarint = (field: number, value: number) =>
+  Uint8Array.from([...encodeVarint(field << 3), ...encodeVarint(value)]);
+
+export interface MockBeaconBlock {
+  cid: string;
+  json: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * Builds a chain of raw beacon blocks, oldest first, where each block links
+ * to the one before it in the list
+ */
+export const createBeaconChain = async (
+  blocks: { sequence: number; timestamp: string }[]
+): Promise<MockBeaconBlock[]> => {
+  const chain: MockBeaconBlock[] = [];
+  for (const [index, data] of blocks.entries()) {
+    const json = JSON.stringify({
+      previous: index > 0 ? `/ipfs/${chain[index - 1].cid}` : undefined,
+      data: { ...data, ctrng: [data.sequence] },
+    });
+    const bytes = new TextEncoder().encode(json);
+    chain.push({ cid: await createCID(0x55, bytes), json, bytes });
+  }
+  return chain;
+};
+
+/**
+ * Encodes a dag-cbor CID link (tag 42 over 0x00-prefixed CID bytes)
+ */
+export const cborLink = (cid: Uint8Array) =>
+  Uint8Array.from([0xd8, 0x2a, 0x58, cid.length + 1, 0x00, ...cid]);
+
+/**
+ * Encodes a short CBOR text string
+ */
+export const cborText = (text: string) =>
+  Uint8Array.from([0x60 | text.length, ...new TextEncoder().encode(text)]);
+
+/**
+ * Builds a CARv1 file from root CIDs and (CID, block) sections
+ */
+export const createCAR = (
+  roots: Uint8Array[],
+  blocks: { cid: Uint8Array; bytes: Uint8Array }[]
+) => {
+  const header = Uint8Array.from([
+    0xa2,
+    ...cborText("roots"),
+    0x80 | roots.length,
+    ...roots.flatMap((root) => [...cborLink(root)]),
+    ...cborText("version"),
+    0x01,
+  ]);
+  return Uint8Array.from([
+    ...encodeVarint(header.length),
+    ...header,
+    ...blocks.flatMap(({ cid, bytes }) => [
+      ...encodeVarint(cid.length + bytes.length),
+      ...cid,
+      ...bytes,
+    ]),
+  ]);
+};
+
+/**
+ * Encodes a CBOR item head (major type and length or value)
+ */
+export const cborHead = (major: number, value: number) => {
+  if (value < 24) {
+    return [(major << 5) | value];
+  }
+  const bytes =
+    value < 0x100 ? 1 : value < 0x10000 ? 2 : value < 0x100000000 ? 4 : 8;
+  const head = [(major << 5) | (24 + Math.log2(bytes))];
+  for (let i = bytes - 1; i >= 0; i--) {
+    head.push(Number((BigInt(value) >> BigInt(8 * i)) & BigInt(0xff)));
+  }
+  return head;
+};
+
+const encodeBase36 = (bytes: Uint8Array) => {
+  let value = BigInt(0);
+  for (const byte of bytes) {
+    value = (value << BigInt(8)) + BigInt(byte);
+  }
+  return value.toString(36);
+};
+
+export interface IPNSRecordFields {
+  value: string;
+  sequence: number;
+  validity?: string;
+  ttl?: number; // ns
+  publicKey?: Uint8Array; // Embedded for names that hash their key
+}
+
+/**
+ * Generates an IPNS key and its base36 `k...` name
+ *
+ * Ed25519 keys are embedded in the name; RSA names hash the key, which is
+ * then returned for inclusion in records.
+ */
+export const createIPNSKey = async (
+  algorithm: "Ed25519" | "RSA" = "Ed25519"
+) => {
+  const keyPair = (await (algorithm === "Ed25519"
+    ? crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])
+    : crypto.subtle.generateKey(
+        {
+          name: "RSASSA-PKCS1-v1_5",
+          modulusLength: 2048,
+          publicExponent: Uint8Array.from([1, 0, 1]),
+          hash: "SHA-256",
+        },
+        true,
+        ["sign", "verify"]
+      ))) as CryptoKeyPair;
+  const publicKey = new Uint8Array(
+    await crypto.subtle.exportKey(
+      algorithm === "Ed25519" ? "raw" : "spki",
+      keyPair.publicKey
+    )
+  );
+  const encoded = Uint8Array.from([
+    ...pbVarint(1, algorithm === "Ed25519" ? 1 : 0),
+    ...pbField(2, publicKey),
+  ]);
+  const multihash =
+    algorithm === "Ed25519"
+      ? [0x00, encoded.length, ...encoded]
+      : [0x12, 0x20, ...(await sha256(encoded))];
+  const name = `k${encodeBase36(Uint8Array.from([0x01, 0x72, ...multihash]))}`;
+  return {
+    name,
+    privateKey: keyPair.privateKey,
+    publicKey: algorithm === "RSA" ? encoded : undefined,
+  };
+};
+
+/**
+ * Builds a V1+V2 signed IPNS record
+ */
+export const createIPNSRecord = async (
+  privateKey: CryptoKey,
+  {
+    value,
+    sequence,
+    validity = "2999-01-01T00:00:00.000000000Z",
+    ttl = 60e9,
+    publicKey,
+  }: IPNSRecordFields
+) => {
+  const text = new TextEncoder();
+  const entry = (key: string, item: number[]) => [
+    ...cborHead(3, key.length),
+    ...text.encode(key),
+    ...item,
+  ];
+  const bytes = (data: Uint8Array) => [...cborHead(2, data.length), ...data];
+  const data = Uint8Array.from([
+    ...cborHead(5, 5),
+    ...entry("TTL", cborHead(0, ttl)),
+    ...entry("Value", bytes(text.encode(value))),
+    ...entry("Sequence", cborHead(0, sequence)),
+    ...entry("Validity", bytes(text.encode(validity))),
+    ...entry("ValidityType", cborHead(0, 0)),
+  ]);
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(
+      privateKey.algorithm.name,
+      privateKey,
+      Uint8Array.from([...text.encode("ipns-signature:"), ...data])
+    )
+  );
+  return Uint8Array.from([
+    ...pbField(1, text.encode(value)),
+    ...pbVarint(3, 0),
+    ...pbField(4, text.encode(validity)),
+    ...pbVarint(5, sequence),
+    ...pbVarint(6, ttl),
+    ...(publicKey ? pbField(7, publicKey) : []),
+    ...pbField(8, signature),
+    ...pbField(9, data),
+  ]);
+};
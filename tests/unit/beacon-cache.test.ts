@@ -0,0 +1,134 @@
+/**
+ * Unit tests for beacon block caches
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  FileBeaconBlockCache,
+  MemoryBeaconBlockCache,
+} from "../../src/storage";
+import { BeaconData } from "../../src/types";
+
+const block = (sequence: number): BeaconData => ({
+  previous: `/ipfs/block-${sequence - 1}`,
+  sequence,
+  timestamp: "2024-01-01T00:00:00.000Z",
+  ctrng: [sequence],
+});
+
+describe("Beacon block caches", () => {
+  describe("MemoryBeaconBlockCache", () => {
+    it("should store blocks by CID and index them by sequence", async () => {
+      const cache = new MemoryBeaconBlockCache();
+
+      await cache.set("bafyblock1", block(1));
+      await cache.index("/ipns/beacon", 1, "bafyblock1");
+
+      expect(await cache.get("bafyblock1")).toEqual(block(1));
+      expect(await cache.getCID("/ipns/beacon", 1)).toBe("bafyblock1");
+      expect(await cache.get("bafyblock2")).toBeNull();
+      expect(await cache.getCID("/ipns/beacon", 2)).toBeNull();
+    });
+
+    it("should keep a separate sequence index per beacon", async () => {
+      const cache = new MemoryBeaconBlockCache();
+
+      await cache.index("/ipns/beacon-a", 1, "bafyblocka");
+      await cache.index("/ipns/beacon-b", 1, "bafyblockb");
+
+      expect(await cache.getCID("/ipns/beacon-a", 1)).toBe("bafyblocka");
+      expect(await cache.getCID("/ipns/beacon-b", 1)).toBe("bafyblockb");
+      expect(await cache.getCID("/ipns/beacon-c", 1)).toBeNull();
+    });
+
+    it("should evict the least recently used block", async () => {
+      const cache = new MemoryBeaconBlockCache(2);
+
+      for (const sequence of [1, 2]) {
+        await cache.set(`bafyblock${sequence}`, block(sequence));
+        await cache.index("/ipns/beacon", sequence, `bafyblock${sequence}`);
+      }
+      await cache.get("bafyblock1");
+      await cache.set("bafyblock3", block(3));
+
+      expect(await cache.get("bafyblock1")).toEqual(block(1));
+      expect(await cache.get("bafyblock2")).toBeNull();
+      expect(await cache.getCID("/ipns/beacon", 1)).toBe("bafyblock1");
+      expect(await cache.getCID("/ipns/beacon", 2)).toBeNull();
+    });
+
+    it("should clear all entries", async () => {
+      const cache = new MemoryBeaconBlockCache();
+      await cache.set("bafyblock1", block(1));
+      await cache.index("/ipns/beacon", 1, "bafyblock1");
+
+      await cache.clear();
+
+      expect(await cache.get("bafyblock1")).toBeNull();
+      expect(await cache.getCID("/ipns/beacon", 1)).toBeNull();
+    });
+  });
+
+  describe("FileBeaconBlockCache", () => {
+    let directory: string;
+    let cache: FileBeaconBlockCache;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "orbitport-cache-"));
+      cache = new FileBeaconBlockCache(directory);
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should persist blocks and the sequence index across instances", async () => {
+      await cache.set("bafyblock1", block(1));
+      await cache.index("/ipns/beacon", 1, "bafyblock1");
+
+      const reopened = new FileBeaconBlockCache(directory);
+      expect(await reopened.get("bafyblock1")).toEqual(block(1));
+      expect(await reopened.getCID("/ipns/beacon", 1)).toBe("bafyblock1");
+    });
+
+    it("should keep a separate sequence index per beacon", async () => {
+      await cache.index("/ipns/beacon-a", 1, "bafyblocka");
+      await cache.index("/ipns/beacon-b", 1, "bafyblockb");
+
+      expect(await cache.getCID("/ipns/beacon-a", 1)).toBe("bafyblocka");
+      expect(await cache.getCID("/ipns/beacon-b", 1)).toBe("bafyblockb");
+    });
+
+    it("should return null for unknown entries", async () => {
+      expect(await cache.get("bafyunknown")).toBeNull();
+      expect(await cache.getCID("/ipns/beacon", 42)).toBeNull();
+    });
+
+    it("should ignore CIDs that are not safe file names", async () => {
+      await cache.set("../escape", block(1));
+      await cache.index("/ipns/beacon", 1, "../escape");
+
+      expect(fs.existsSync(path.join(directory, "escape.json"))).toBe(false);
+      expect(await cache.get("../escape")).toBeNull();
+      expect(await cache.getCID("/ipns/beacon", 1)).toBeNull();
+    });
+
+    it("should keep beacon index entries inside the cache directory", async () => {
+      await cache.index("..", 1, "bafyblock1");
+
+      expect(fs.existsSync(path.join(directory, "1"))).toBe(false);
+      expect(await cache.getCID("..", 1)).toBe("bafyblock1");
+    });
+
+    it("should clear the cache directory", async () => {
+      await cache.set("bafyblock1", block(1));
+
+      await cache.clear();
+
+      expect(await cache.get("bafyblock1")).toBeNull();
+      expect(fs.existsSync(directory)).toBe(false);
+    });
+  });
+});
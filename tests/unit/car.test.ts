@@ -0,0 +1,186 @@
+/**
+ * Unit tests for CBOR and CAR utilities
+ */
+
+import {
+  parseCAR,
+  readCARContent,
+  resolveCARPath,
+  verifyCAR,
+} from "../../src/utils/car";
+import { CBORTag, decodeCBOR } from "../../src/utils/cbor";
+import { CID_CODECS } from "../../src/utils/cid";
+import {
+  cborLink,
+  cborText,
+  createCAR,
+  createCIDBytes,
+  encodeBase32,
+  pbField,
+  pbVarint,
+} from "../helpers/ipfs";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const cidString = (cid: Uint8Array) => `b${encodeBase32(cid)}`;
+
+describe("CAR Utilities", () => {
+  describe("decodeCBOR", () => {
+    it("should decode maps, arrays, strings and integers", () => {
+      expect(
+        decodeCBOR(
+          Uint8Array.from([
+            0xa2,
+            ...cborText("a"),
+            0x83,
+            0x01,
+            0x20,
+            0x19,
+            0x01,
+            0x00,
+            ...cborText("b"),
+            0xf5,
+          ])
+        )
+      ).toEqual({ a: [1, -1, 256], b: true });
+    });
+
+    it("should decode tags and byte strings", () => {
+      const value = decodeCBOR(Uint8Array.from([0xd8, 0x2a, 0x42, 0x00, 0x01]));
+
+      expect(value).toBeInstanceOf(CBORTag);
+      expect((value as CBORTag).tag).toBe(42);
+      expect(Array.from((value as CBORTag).value as Uint8Array)).toEqual([
+        0, 1,
+      ]);
+    });
+
+    it("should reject truncated data and trailing bytes", () => {
+      expect(() => decodeCBOR(Uint8Array.from([0x62, 0x61]))).toThrow(
+        "unexpected end of data"
+      );
+      expect(() => decodeCBOR(Uint8Array.from([0x01, 0x02]))).toThrow(
+        "trailing bytes"
+      );
+    });
+  });
+
+  describe("parseCAR / verifyCAR", () => {
+    it("should parse roots and blocks", async () => {
+      const bytes = encode('{"a":1}');
+      const cid = await createCIDBytes(CID_CODECS.RAW, bytes);
+      const car = parseCAR(createCAR([cid], [{ cid, bytes }]));
+
+      expect(car.roots).toEqual([cidString(cid)]);
+      expect(decode(car.blocks.get(cidString(cid))!.bytes)).toBe('{"a":1}');
+      await expect(verifyCAR(car)).resolves.toBeUndefined();
+    });
+
+    it("should reject blocks that do not match their CID", async () => {
+      const cid = await createCIDBytes(CID_CODECS.RAW, encode('{"a":1}'));
+      const car = parseCAR(
+        createCAR([cid], [{ cid, bytes: encode('{"a":2}') }])
+      );
+
+      await expect(verifyCAR(car)).rejects.toMatchObject({
+        code: "INTEGRITY_ERROR",
+      });
+    });
+
+    it("should reject truncated archives", async () => {
+      const bytes = encode('{"a":1}');
+      const cid = await createCIDBytes(CID_CODECS.RAW, bytes);
+      const car = createCAR([cid], [{ cid, bytes }]);
+
+      expect(() => parseCAR(car.slice(0, car.length - 1))).toThrow(
+        "Invalid CAR: truncated block section"
+      );
+    });
+  });
+
+  describe("readCARContent", () => {
+    it("should reassemble multi-block UnixFS files", async () => {
+      const chunks = [encode('{"data":'), encode('{"sequence":1}}')];
+      const leaves = await Promise.all(
+        chunks.map(async (bytes) => ({
+          cid: await createCIDBytes(CID_CODECS.RAW, bytes),
+          bytes,
+        }))
+      );
+      const root = Uint8Array.from([
+        ...leaves.flatMap(({ cid }) => [...pbField(2, pbField(1, cid))]),
+        ...pbField(1, pbVarint(1, 2)),
+      ]);
+      const rootCid = await createCIDBytes(CID_CODECS.DAG_PB, root);
+      const car = parseCAR(
+        createCAR([rootCid], [{ cid: rootCid, bytes: root }, ...leaves])
+      );
+
+      expect(decode(readCARContent(car, cidString(rootCid)))).toBe(
+        '{"data":{"sequence":1}}'
+      );
+    });
+
+    it("should convert dag-cbor blocks to JSON with link paths", async () => {
+      const previous = await createCIDBytes(CID_CODECS.RAW, encode("{}"));
+      const block = Uint8Array.from([
+        0xa1,
+        ...cborText("previous"),
+        ...cborLink(previous),
+      ]);
+      const cid = await createCIDBytes(CID_CODECS.DAG_CBOR, block);
+      const car = parseCAR(createCAR([cid], [{ cid, bytes: block }]));
+
+      expect(JSON.parse(decode(readCARContent(car, cidString(cid))))).toEqual({
+        previous: `/ipfs/${cidString(previous)}`,
+      });
+    });
+
+    it("should fail when a linked block is missing", async () => {
+      const leaf = await createCIDBytes(CID_CODECS.RAW, encode("x"));
+      const root = pbField(2, pbField(1, leaf));
+      const rootCid = await createCIDBytes(CID_CODECS.DAG_PB, root);
+      const car = parseCAR(
+        createCAR([rootCid], [{ cid: rootCid, bytes: root }])
+      );
+
+      expect(() => readCARContent(car, cidString(rootCid))).toThrow(
+        `Block ${cidString(leaf)} is missing from CAR`
+      );
+    });
+  });
+
+  describe("resolveCARPath", () => {
+    it("should follow named directory entries", async () => {
+      const file = encode('{"data":{}}');
+      const fileCid = await createCIDBytes(CID_CODECS.RAW, file);
+      const directory = Uint8Array.from([
+        ...pbField(
+          2,
+          Uint8Array.from([
+            ...pbField(1, fileCid),
+            ...pbField(2, encode("beacon.json")),
+          ])
+        ),
+        ...pbField(1, pbVarint(1, 1)),
+      ]);
+      const directoryCid = await createCIDBytes(CID_CODECS.DAG_PB, directory);
+      const car = parseCAR(
+        createCAR(
+          [directoryCid],
+          [
+            { cid: directoryCid, bytes: directory },
+            { cid: fileCid, bytes: file },
+          ]
+        )
+      );
+
+      expect(
+        resolveCARPath(car, cidString(directoryCid), ["beacon.json"])
+      ).toBe(cidString(fileCid));
+      expect(() =>
+        resolveCARPath(car, cidString(directoryCid), ["missing.json"])
+      ).toThrow("Path segment 'missing.json' not found");
+    });
+  });
+});
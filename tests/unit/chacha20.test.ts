@@ -0,0 +1,27 @@
+/**
+ * Unit tests for the ChaCha20 block function
+ */
+
+import { chacha20Block } from "../../src/utils/chacha20";
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+describe("chacha20Block", () => {
+  it("should match the RFC 8439 block function test vector", () => {
+    const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+    const nonce = Uint8Array.from(
+      Buffer.from("000000090000004a00000000", "hex")
+    );
+
+    expect(hex(chacha20Block(key, 1, nonce))).toBe(
+      "10f1e7e4d13b5915500fdd1fa32071c4c7d1f4c733c068030422aa9ac3d46c4e" +
+        "d2826446079faa0914c2d705d98b02a2b5129cd1de164eb9cbd083e8a2503c4e"
+    );
+  });
+
+  it("should reject keys and nonces of the wrong size", () => {
+    expect(() =>
+      chacha20Block(new Uint8Array(16), 0, new Uint8Array(12))
+    ).toThrow("ChaCha20 requires a 32-byte key and a 12-byte nonce");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for CID utilities
+ */
+
+import {
+  CID_CODECS,
+  decodeBase32,
+  decodeBase58,
+  decodeBlockContent,
+  encodeBase58,
+  formatCID,
+  getPathCID,
+  parseCID,
+  readCID,
+  verifyBlock,
+} from "../../src/utils/cid";
+import {
+  decodeProtobuf,
+  decodeVarint,
+  encodeVarint,
+} from "../../src/utils/protobuf";
+import {
+  createCID,
+  createCIDBytes,
+  encodeBase32,
+  pbField,
+  pbVarint,
+} from "../helpers/ipfs";
+
+describe("CID Utilities", () => {
+  describe("protobuf", () => {
+    it("should decode multi-byte varints", () => {
+      expect(decodeVarint(Uint8Array.from([0xac, 0x02]))).toEqual([300, 2]);
+    });
+
+    it("should round-trip varints", () => {
+      expect(encodeVarint(300)).toEqual([0xac, 0x02]);
+      expect(decodeVarint(Uint8Array.from(encodeVarint(2 ** 40)))).toEqual([
+        2 ** 40,
+        6,
+      ]);
+    });
+
+    it("should decode varint and length-delimited fields", () => {
+      const fields = decodeProtobuf(
+        Uint8Array.from([0x08, 0x02, 0x12, 0x02, 0x68, 0x69])
+      );
+      expect(fields).toEqual([
+        { field: 1, wireType: 0, value: 2 },
+        { field: 2, wireType: 2, value: Uint8Array.from([0x68, 0x69]) },
+      ]);
+    });
+  });
+
+  describe("decodeBase32 / decodeBase58", () => {
+    it("should round-trip base32", () => {
+      const bytes = Uint8Array.from([1, 2, 3, 250, 251]);
+      expect(Array.from(decodeBase32(encodeBase32(bytes)))).toEqual(
+        Array.from(bytes)
+      );
+    });
+
+    it("should keep leading zero bytes in base58", () => {
+      expect(Array.from(decodeBase58("1112"))).toEqual([0, 0, 0, 1]);
+      expect(encodeBase58(Uint8Array.from([0, 0, 0, 1]))).toBe("1112");
+    });
+  });
+
+  describe("formatCID / readCID", () => {
+    it("should format CIDs in their canonical string form", async () => {
+      const v0 = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+      const v1 = await createCID(CID_CODECS.RAW, Uint8Array.from([1]));
+
+      expect(formatCID(parseCID(v0))).toBe(v0);
+      expect(formatCID(parseCID(v1))).toBe(v1);
+    });
+
+    it("should read a CID embedded in a larger buffer", async () => {
+      const cid = await createCIDBytes(CID_CODECS.RAW, Uint8Array.from([1]));
+      const [parsed, end] = readCID(Uint8Array.from([0xff, ...cid, 0xee]), 1);
+
+      expect(parsed.codec).toBe(CID_CODECS.RAW);
+      expect(end).toBe(cid.length + 1);
+    });
+  });
+
+  describe("parseCID", () => {
+    it("should parse a CIDv0", () => {
+      const cid = parseCID("QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG");
+      expect(cid.version).toBe(0);
+      expect(cid.codec).toBe(CID_CODECS.DAG_PB);
+      expect(cid.multihash.digest).toHaveLength(32);
+    });
+
+    it("should parse a base32 CIDv1", async () => {
+      const block = new TextEncoder().encode("{}");
+      const cid = parseCID(await createCID(CID_CODECS.DAG_JSON, block));
+      expect(cid.version).toBe(1);
+      expect(cid.codec).toBe(CID_CODECS.DAG_JSON);
+    });
+
+    it("should reject unsupported multibase prefixes", () => {
+      expect(() => parseCID("mAXASIA")).toThrow("Unsupported multibase prefix");
+    });
+  });
+
+  describe("getPathCID", () => {
+    it("should only return CIDs of bare /ipfs/ paths", () => {
+      expect(getPathCID("/ipfs/bafyabc")).toBe("bafyabc");
+      expect(getPathCID("/ipfs/bafyabc/file.json")).toBeNull();
+      expect(getPathCID("/ipns/k51abc")).toBeNull();
+    });
+  });
+
+  describe("verifyBlock", () => {
+    it("should accept matching blocks and reject tampered ones", async () => {
+      const block = new TextEncoder().encode('{"data":1}');
+      const cid = parseCID(await createCID(CID_CODECS.RAW, block));
+
+      expect(await verifyBlock(cid, block)).toBe(true);
+      expect(
+        await verifyBlock(cid, new TextEncoder().encode('{"data":2}'))
+      ).toBe(false);
+    });
+  });
+
+  describe("decodeBlockContent", () => {
+    it("should unwrap single-block UnixFS files", async () => {
+      const content = new TextEncoder().encode("hello");
+      const unixfs = Uint8Array.from([...pbVarint(1, 2), ...pbField(2, content)]);
+      const block = pbField(1, unixfs);
+      const cid = parseCID(await createCID(CID_CODECS.DAG_PB, block));
+
+      expect(new TextDecoder().decode(decodeBlockContent(cid, block))).toBe(
+        "hello"
+      );
+    });
+
+    it("should reject multi-block UnixFS files", async () => {
+      const block = Uint8Array.from([
+        ...pbField(2, Uint8Array.from([1])),
+        ...pbField(1, pbVarint(1, 2)),
+      ]);
+      const cid = parseCID(await createCID(CID_CODECS.DAG_PB, block));
+
+      expect(() => decodeBlockContent(cid, block)).toThrow(
+        "Multi-block UnixFS files are not supported"
+      );
+    });
+  });
+});
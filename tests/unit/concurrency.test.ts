@@ -0,0 +1,47 @@
+/**
+ * Unit tests for concurrency utilities
+ */
+
+import { mapWithConcurrency } from "../../src/utils/concurrency";
+
+describe("Concurrency Utilities", () => {
+  describe("mapWithConcurrency", () => {
+    it("should preserve input order", async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 2, (ms, index) =>
+        new Promise<number>((resolve) =>
+          setTimeout(() => resolve(index), ms)
+        )
+      );
+
+      expect(results).toEqual([0, 1, 2]);
+    });
+
+    it("should never exceed the concurrency limit", async () => {
+      let active = 0;
+      let peak = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      });
+
+      expect(peak).toBe(3);
+    });
+
+    it("should reject with the first error", async () => {
+      const fn = jest.fn(async (value: number) => {
+        if (value === 2) {
+          throw new Error("boom");
+        }
+        return value;
+      });
+
+      await expect(mapWithConcurrency([1, 2, 3, 4], 1, fn)).rejects.toThrow(
+        "boom"
+      );
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -4,7 +4,11 @@
 
 import { CTRNGService } from "../../src/services/ctrng";
 import { BeaconService } from "../../src/services/beacon";
-import { OrbitportConfig, IPFSCTRNGRequest } from "../../src/types";
+import {
+  DivergencePolicy,
+  OrbitportConfig,
+  IPFSCTRNGRequest,
+} from "../../src/types";
 
 // Mock BeaconService
 jest.mock("../../src/services/beacon");
@@ -329,4 +333,1140 @@ describe("CTRNGService", () => {
       ).rejects.toThrow("No cTRNG values found in beacon data");
     });
   });
+
+  describe("randomInt", () => {
+    it("should map beacon entropy into the requested range", async () => {
+      // 2^31 read as 32 bits starts 0b10 -> 2 bits needed for [0, 3] -> 2
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 42, ctrng: [2147483648] },
+        metadata: {},
+        success: true,
+      });
+
+      const result = await ctrngService.randomInt(10, 13, { src: "ipfs" });
+
+      expect(result.data.value).toBe(12);
+      expect(result.data.rejections).toBe(0);
+      expect(result.data.entropy).toEqual([
+        { source: "ipfs", data: "2147483648", sequence: 42, index: 0 },
+      ]);
+    });
+
+    it("should reject out-of-range draws and consume further beacon indices", async () => {
+      // Range [0, 4] needs 3 bits: the ten draws from 2^32 - 1 are all 0b111
+      // (7, rejected), its last two bits plus a zero give 0b110 (rejected),
+      // then 0 yields 0b000
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 7, ctrng: [100, 4294967295, 0] },
+        metadata: {},
+        success: true,
+      });
+
+      const result = await ctrngService.randomInt(0, 4, {
+        src: "ipfs",
+        index: 1,
+      } as IPFSCTRNGRequest);
+
+      expect(result.data.value).toBe(0);
+      expect(result.data.rejections).toBe(11);
+      expect(result.data.entropy.map((chunk) => chunk.index)).toEqual([1, 2]);
+    });
+
+    it("should continue into earlier blocks when rejections use up a block", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 7, previous: "/ipfs/block-6", ctrng: [4294967295] },
+        metadata: {},
+        success: true,
+      });
+      (beaconService.getBeacon as jest.Mock).mockResolvedValue({
+        data: { sequence: 6, ctrng: [0] },
+        metadata: { cid: "block-6" },
+        success: true,
+      });
+
+      const result = await ctrngService.randomInt(0, 4, { src: "ipfs" });
+
+      expect(beaconService.getBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "/ipfs/block-6" }),
+        expect.anything()
+      );
+      expect(result.data.value).toBe(0);
+      expect(result.data.rejections).toBe(11);
+      expect(
+        result.data.entropy.map((chunk) => [chunk.sequence, chunk.index])
+      ).toEqual([
+        [7, 0],
+        [6, 0],
+      ]);
+    });
+
+    it("should fail when the beacon chain runs out of values", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 7, ctrng: [4294967295] },
+        metadata: {},
+        success: true,
+      });
+
+      await expect(
+        ctrngService.randomInt(0, 4, { src: "ipfs" })
+      ).rejects.toThrow(
+        "Beacon entropy exhausted: the beacon chain ended at block 7"
+      );
+    });
+
+    it("should request fresh API values for each draw", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      // Range [0, 9] needs 4 bits: "f" (15) is rejected, "3" is accepted
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ service: "trng", src: "trng", data: "f" }),
+          headers: new Map(),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ service: "trng", src: "trng", data: "3" }),
+          headers: new Map(),
+        });
+
+      const result = await ctrngService.randomInt(0, 9);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.data.value).toBe(3);
+      expect(result.data.entropy).toEqual([
+        { source: "trng", data: "f" },
+        { source: "trng", data: "3" },
+      ]);
+    });
+
+    it("should return min without entropy for a single-value range", async () => {
+      const result = await ctrngService.randomInt(5, 5);
+
+      expect(result.data.value).toBe(5);
+      expect(result.data.entropy).toEqual([]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should throw on an invalid range", async () => {
+      await expect(ctrngService.randomInt(10, 1)).rejects.toThrow(
+        "min must be less than or equal to max"
+      );
+    });
+  });
+
+  describe("randomBytes", () => {
+    const mockApiValue = (data: string) => ({
+      ok: true,
+      json: () => Promise.resolve({ service: "trng", src: "trng", data }),
+      headers: new Map(),
+    });
+
+    it("should concatenate API values in raw mode", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(mockApiValue("0102"))
+        .mockResolvedValueOnce(mockApiValue("0304"));
+
+      const result = await ctrngService.randomBytes(3, {}, { mode: "raw" });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(Array.from(result.data)).toEqual([1, 2, 3]);
+      expect(result.metadata.entropy_mode).toBe("raw");
+      expect(result.metadata.entropy).toEqual([
+        { source: "trng" },
+        { source: "trng" },
+      ]);
+    });
+
+    it("should not fall back to the public beacon unless the request allows it", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ error: "bad_request" }),
+      });
+
+      await expect(ctrngService.randomBytes(32)).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+
+      ctrngService = new CTRNGService(
+        mockIpfsOnlyConfig,
+        mockGetToken,
+        beaconService,
+        false
+      );
+      await expect(ctrngService.randomBytes(32)).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+    });
+
+    it("should draw raw IPFS bytes from earlier blocks when one block is used up", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: {
+          sequence: 9,
+          previous: "/ipfs/block-8",
+          ctrng: Array(10).fill(0x01020304),
+        },
+        metadata: {},
+        success: true,
+      });
+      (beaconService.getBeacon as jest.Mock).mockResolvedValue({
+        data: { sequence: 8, ctrng: Array(10).fill(0x05060708) },
+        metadata: { cid: "block-8" },
+        success: true,
+      });
+
+      const result = await ctrngService.randomBytes(
+        64,
+        { src: "ipfs" },
+        { mode: "raw" }
+      );
+
+      expect(result.data).toHaveLength(64);
+      expect(Array.from(result.data.slice(36, 44))).toEqual([
+        1, 2, 3, 4, 5, 6, 7, 8,
+      ]);
+      expect(
+        result.metadata.entropy?.map((chunk) => [chunk.sequence, chunk.index])
+      ).toEqual([
+        ...Array.from({ length: 10 }, (_, i) => [9, i]),
+        ...Array.from({ length: 6 }, (_, i) => [8, i]),
+      ]);
+    });
+
+    it("should expand a 256-bit seed by default", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue(
+        mockApiValue("ab".repeat(32))
+      );
+
+      const result = await ctrngService.randomBytes(4096);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.data).toHaveLength(4096);
+      expect(result.metadata.entropy_mode).toBe("expand");
+    });
+
+    it("should derive the same output from the same seed", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue(
+        mockApiValue("cd".repeat(32))
+      );
+
+      const first = await ctrngService.randomBytes(9000);
+      const second = await ctrngService.randomBytes(16);
+
+      expect(first.data).toHaveLength(9000);
+      expect(Array.from(first.data.slice(0, 16))).toEqual(
+        Array.from(second.data)
+      );
+    });
+
+    it("should throw on an invalid length", async () => {
+      await expect(ctrngService.randomBytes(0)).rejects.toThrow(
+        "length must be a positive integer"
+      );
+    });
+  });
+
+  describe("randomBatch", () => {
+    it("should reuse a single token for every API request", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({ service: "trng", src: "trng", data: "abcd" }),
+        headers: new Map(),
+      });
+
+      const result = await ctrngService.randomBatch(5, { src: "rng" });
+
+      expect(mockGetToken).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledTimes(5);
+      expect(result.data).toHaveLength(5);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://test-api.com/api/v1/services/trng?src=rng",
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: "Bearer test-token",
+          }),
+        })
+      );
+    });
+
+    it("should keep API values and report the items filled from IPFS", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ service: "trng", src: "trng", data: "abcd" }),
+          headers: new Map([["x-request-id", "req-1"]]),
+        })
+        .mockResolvedValue({
+          ok: false,
+          status: 400,
+          json: () => Promise.resolve({ error: "bad_request" }),
+        });
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 9, ctrng: [100, 200, 300] },
+        metadata: { cid: "block-9" },
+        success: true,
+      });
+
+      const result = await ctrngService.randomBatch(
+        3,
+        { src: "trng" },
+        { concurrency: 1 }
+      );
+
+      expect(result.data.map((value) => value.data)).toEqual([
+        "abcd",
+        "100",
+        "200",
+      ]);
+      expect(result.data.map((value) => value.provenance?.source)).toEqual([
+        "trng",
+        "ipfs",
+        "ipfs",
+      ]);
+      expect(result.metadata.fallbackItems).toEqual([1, 2]);
+      expect(result.metadata.items?.[0]).toMatchObject({
+        request_id: "req-1",
+      });
+      expect(result.metadata.items?.[1]).toMatchObject({ cid: "block-9" });
+    });
+
+    it("should start IPFS values at the requested index and continue into earlier blocks", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: {
+          sequence: 9,
+          previous: "/ipfs/block-8",
+          ctrng: [100, 200, 300],
+        },
+        metadata: { cid: "block-9" },
+        success: true,
+      });
+      (beaconService.getBeacon as jest.Mock).mockResolvedValue({
+        data: { sequence: 8, previous: "/ipfs/block-7", ctrng: [400, 500] },
+        metadata: { cid: "block-8", sources: ["gateway:https://gw"] },
+        success: true,
+      });
+
+      const result = await ctrngService.randomBatch(3, {
+        src: "ipfs",
+        index: 2,
+      } as IPFSCTRNGRequest);
+
+      expect(beaconService.getBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "/ipfs/block-8" }),
+        expect.anything()
+      );
+      expect(result.data.map((value) => value.data)).toEqual([
+        "300",
+        "400",
+        "500",
+      ]);
+      expect(
+        result.data.map((value) => [
+          value.provenance?.sequence,
+          value.provenance?.cid,
+          value.provenance?.index,
+        ])
+      ).toEqual([
+        [9, "block-9", 2],
+        [8, "block-8", 0],
+        [8, "block-8", 1],
+      ]);
+    });
+
+    it("should fail when the beacon chain ends before count values", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 0, ctrng: [100, 200, 300] },
+        metadata: {},
+        success: true,
+      });
+
+      await expect(
+        ctrngService.randomBatch(10, { src: "ipfs" })
+      ).rejects.toMatchObject({
+        code: "CTRNG_ERROR",
+        message: "Beacon chain ended at block 0 with 3 of 10 value(s)",
+      });
+    });
+
+    it("should cap IPFS values at count", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: { sequence: 9, ctrng: [100, 200, 300] },
+        metadata: {},
+        success: true,
+      });
+
+      const result = await ctrngService.randomBatch(2, { src: "ipfs" });
+
+      expect(result.data.map((value) => value.data)).toEqual(["100", "200"]);
+    });
+
+    it("should throw on invalid count or concurrency", async () => {
+      await expect(ctrngService.randomBatch(0)).rejects.toThrow(
+        "count must be a positive integer"
+      );
+      await expect(
+        ctrngService.randomBatch(3, {}, { concurrency: 0 })
+      ).rejects.toThrow("concurrency must be a positive integer");
+    });
+  });
+
+  describe("signature verification", () => {
+    it("should return signed API data when verify is set and the signature is valid", async () => {
+      const { publicKey, privateKey } = (await crypto.subtle.generateKey(
+        { name: "Ed25519" },
+        true,
+        ["sign", "verify"]
+      )) as CryptoKeyPair;
+      const pk = Buffer.from(
+        await crypto.subtle.exportKey("raw", publicKey)
+      ).toString("hex");
+      const value = Buffer.from(
+        await crypto.subtle.sign(
+          { name: "Ed25519" },
+          privateKey,
+          new TextEncoder().encode("abcd")
+        )
+      ).toString("hex");
+
+      ctrngService = new CTRNGService(
+        { ...mockConfig, trustedPublicKeys: [pk] },
+        mockGetToken,
+        beaconService,
+        true
+      );
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            service: "trng",
+            src: "trng",
+            data: "abcd",
+            signature: { value, pk, algo: "ed25519" },
+          }),
+        headers: new Map(),
+      });
+
+      const result = await ctrngService.random({ src: "trng", verify: true });
+      expect(result.data.data).toBe("abcd");
+    });
+
+    it("should fail with SIGNATURE_INVALID instead of falling back to IPFS", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            service: "trng",
+            src: "trng",
+            data: "abcd",
+            signature: { value: "00", pk: "" },
+          }),
+        headers: new Map(),
+      });
+
+      await expect(
+        ctrngService.random({ src: "trng", verify: true })
+      ).rejects.toMatchObject({ code: "SIGNATURE_INVALID" });
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+    });
+
+    it("should require credentials for verified requests", async () => {
+      ctrngService = new CTRNGService(
+        mockIpfsOnlyConfig,
+        mockGetToken,
+        beaconService,
+        true
+      );
+
+      await expect(
+        ctrngService.random({ src: "trng", verify: true })
+      ).rejects.toThrow("Signature verification requires API credentials");
+    });
+  });
+
+  describe("divergence policy", () => {
+    const beacon = (sequence: number, previous: string, value: number) => ({
+      sequence,
+      previous,
+      timestamp: "2024-01-01T00:00:00.000Z",
+      ctrng: [value],
+    });
+    const gateway = beacon(11, "/ipfs/block-10", 111);
+    const api = beacon(10, "/ipfs/block-9", 100);
+
+    const createService = (
+      divergencePolicy?: DivergencePolicy,
+      eventHandler = jest.fn()
+    ) =>
+      new CTRNGService(
+        {
+          ...mockIpfsOnlyConfig,
+          ipfs: { ...mockIpfsOnlyConfig.ipfs, divergencePolicy },
+        },
+        mockGetToken,
+        beaconService,
+        false,
+        eventHandler
+      );
+
+    beforeEach(() => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: {
+          gateway,
+          api,
+          match: false,
+          differences: {
+            sequence: { gateway: 11, api: 10 },
+            previous: { gateway: "/ipfs/block-10", api: "/ipfs/block-9" },
+          },
+        },
+        metadata: {},
+        success: true,
+      });
+    });
+
+    it("should prefer the newer head when it descends from the older one", async () => {
+      const eventHandler = jest.fn();
+      (beaconService.findCommonAncestor as jest.Mock).mockResolvedValue({
+        ancestor: api,
+        forked: false,
+      });
+
+      const result = await createService(undefined, eventHandler).random({
+        src: "ipfs",
+      });
+
+      expect(result.data.data).toBe("111");
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "beacon_divergence",
+          data: expect.objectContaining({
+            policy: "prefer-latest",
+            differences: expect.objectContaining({
+              sequence: { gateway: 11, api: 10 },
+            }),
+            forked: false,
+            selected: gateway,
+          }),
+        })
+      );
+    });
+
+    it("should fall back to the common ancestor when the heads have forked", async () => {
+      const ancestor = beacon(9, "/ipfs/block-8", 99);
+      (beaconService.findCommonAncestor as jest.Mock).mockResolvedValue({
+        ancestor,
+        forked: true,
+      });
+
+      const result = await createService("prefer-latest").random({
+        src: "ipfs",
+      });
+
+      expect(result.data.data).toBe("99");
+    });
+
+    it("should fail closed with require-match", async () => {
+      const eventHandler = jest.fn();
+
+      await expect(
+        createService("require-match", eventHandler).random({ src: "ipfs" })
+      ).rejects.toMatchObject({ code: "BEACON_DIVERGENCE" });
+      expect(beaconService.findCommonAncestor).not.toHaveBeenCalled();
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            policy: "require-match",
+            selected: null,
+          }),
+        })
+      );
+    });
+
+    it("should prefer the configured source", async () => {
+      const result = await createService("prefer-api").random({ src: "ipfs" });
+
+      expect(result.data.data).toBe("100");
+    });
+
+    it("should pass the common ancestor to custom policies", async () => {
+      const ancestor = beacon(9, "/ipfs/block-8", 99);
+      (beaconService.findCommonAncestor as jest.Mock).mockResolvedValue({
+        ancestor,
+        forked: true,
+      });
+      const policy = jest.fn().mockReturnValue(null);
+
+      await expect(
+        createService(policy).random({ src: "ipfs" })
+      ).rejects.toMatchObject({ code: "BEACON_DIVERGENCE" });
+      expect(policy).toHaveBeenCalledWith(
+        expect.objectContaining({ gateway, api, commonAncestor: ancestor })
+      );
+    });
+  });
+
+  describe("provenance", () => {
+    const beacon = {
+      sequence: 42,
+      previous: "/ipfs/block-41",
+      timestamp: "2024-01-01T00:00:00.000Z",
+      ctrng: [10, 20, 30],
+    };
+
+    const mockBeacon = (data: unknown, metadata: object = {}) =>
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({ data, metadata, success: true });
+
+    it("should record API results as authenticated", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({ service: "trng", src: "trng", data: "abcd" }),
+        headers: new Map(),
+      });
+
+      const result = await ctrngService.random({ src: "rng" });
+
+      expect(result.data.provenance).toEqual({
+        requestedSource: "rng",
+        source: "rng",
+        authMode: "authenticated",
+      });
+    });
+
+    it("should record the API failure when falling back to IPFS", async () => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockRejectedValue(new Error("API failed"));
+      mockBeacon(beacon, {
+        cid: "bafyblock42",
+        sources: ["gateway:https://gw", "api:https://api"],
+      });
+
+      const result = await ctrngService.random();
+
+      expect(result.data.provenance).toEqual({
+        requestedSource: "trng",
+        source: "ipfs",
+        fallbackReason: "API failed",
+        authMode: "authenticated",
+        beaconPath: "/ipns/default-beacon",
+        cid: "bafyblock42",
+        sequence: 42,
+        requestedIndex: 0,
+        index: 0,
+        agreeingSources: ["gateway:https://gw", "api:https://api"],
+      });
+    });
+
+    it("should record token-less mode and the wrapped index", async () => {
+      ctrngService = new CTRNGService(
+        mockIpfsOnlyConfig,
+        mockGetToken,
+        beaconService,
+        false
+      );
+      mockBeacon(beacon, { sources: ["gateway:https://gw"] });
+
+      const result = await ctrngService.random({ src: "ipfs", index: 7 });
+
+      expect(result.data.data).toBe("20");
+      expect(result.data.provenance).toMatchObject({
+        requestedSource: "ipfs",
+        source: "ipfs",
+        authMode: "token-less",
+        requestedIndex: 7,
+        index: 1,
+      });
+      expect(result.data.provenance).not.toHaveProperty("fallbackReason");
+      expect(result.data.provenance).not.toHaveProperty("cid");
+    });
+
+    it("should list the nodes that voted for the quorum block", async () => {
+      const stale = { ...beacon, sequence: 41, previous: "/ipfs/block-40" };
+      mockBeacon(
+        {
+          gateway: stale,
+          api: beacon,
+          match: false,
+          quorum: {
+            beacon,
+            reached: true,
+            threshold: 2,
+            agreeing: 2,
+            votes: [
+              { source: "gateway:https://gw", sequence: 41 },
+              {
+                source: "api:https://api",
+                sequence: 42,
+                previous: "/ipfs/block-41",
+              },
+              {
+                source: "gateway:https://gw2",
+                sequence: 42,
+                previous: "/ipfs/block-41",
+              },
+            ],
+          },
+        },
+        { cid: "bafystale", sources: ["gateway:https://gw"] }
+      );
+
+      const result = await ctrngService.random({ src: "ipfs" });
+
+      expect(result.data.provenance).toMatchObject({
+        sequence: 42,
+        agreeingSources: ["api:https://api", "gateway:https://gw2"],
+      });
+      expect(result.data.provenance).not.toHaveProperty("cid");
+    });
+
+    describe("quorum", () => {
+      const lonelyQuorum = {
+        beacon: null,
+        reached: false,
+        threshold: 2,
+        agreeing: 1,
+        votes: [
+          { source: "gateway:https://gw", sequence: 42 },
+          { source: "api:https://api", error: "API failed" },
+        ],
+      };
+
+      it("should report a default quorum that was not reached", async () => {
+        mockBeacon(beacon, {
+          sources: ["gateway:https://gw"],
+          quorum: lonelyQuorum,
+        });
+
+        const result = await ctrngService.random({ src: "ipfs" });
+
+        expect(result.data.provenance).toMatchObject({
+          sequence: 42,
+          quorumReached: false,
+        });
+      });
+
+      it("should fail when a configured quorum is not reached", async () => {
+        ctrngService = new CTRNGService(
+          { ...mockConfig, ipfs: { ...mockConfig.ipfs, quorum: 2 } },
+          mockGetToken,
+          beaconService,
+          false
+        );
+        mockBeacon(beacon, {
+          sources: ["gateway:https://gw"],
+          quorum: lonelyQuorum,
+        });
+
+        await expect(
+          ctrngService.random({ src: "ipfs" })
+        ).rejects.toMatchObject({
+          code: "QUORUM_NOT_REACHED",
+          details: lonelyQuorum,
+        });
+      });
+
+      it("should record a reached quorum", async () => {
+        mockBeacon(beacon, {
+          sources: ["gateway:https://gw", "api:https://api"],
+          quorum: { ...lonelyQuorum, beacon, reached: true, agreeing: 2 },
+        });
+
+        const result = await ctrngService.random({ src: "ipfs" });
+
+        expect(result.data.provenance).toMatchObject({ quorumReached: true });
+      });
+    });
+
+    it("should number each value of an IPFS batch", async () => {
+      mockBeacon(beacon, { cid: "bafyblock42" });
+
+      const result = await ctrngService.randomBatch(2, { src: "ipfs" });
+
+      expect(result.data.map((value) => value.provenance?.index)).toEqual([
+        0, 1,
+      ]);
+      expect(result.data[1].provenance).toMatchObject({
+        cid: "bafyblock42",
+        sequence: 42,
+      });
+    });
+  });
+
+  describe("fallback mode", () => {
+    const beaconResponse = {
+      data: {
+        sequence: 42,
+        timestamp: "2024-01-01T00:00:00.000Z",
+        ctrng: [10, 20, 30],
+      },
+      metadata: {},
+      success: true,
+    };
+
+    beforeEach(() => {
+      mockGetToken.mockResolvedValue("test-token");
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue(beaconResponse);
+    });
+
+    const rejectAuth = () =>
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 401,
+        json: () =>
+          Promise.resolve({ error: "unauthorized", error_code: "AUTH_FAILED" }),
+      });
+
+    it("should fail with PROVIDER_UNAVAILABLE instead of falling back", async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(
+        new Error("socket hang up")
+      );
+
+      await expect(
+        ctrngService.random({ src: "trng", fallback: "never" })
+      ).rejects.toMatchObject({
+        code: "PROVIDER_UNAVAILABLE",
+        message: expect.stringContaining("socket hang up"),
+      });
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+    });
+
+    it("should fall back only on network errors when configured", async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(
+        new Error("socket hang up")
+      );
+      const result = await ctrngService.random({
+        src: "trng",
+        fallback: "ipfs-only-on-network-error",
+      });
+      expect(result.data.provenance?.source).toBe("ipfs");
+
+      rejectAuth();
+      await expect(
+        ctrngService.random({
+          src: "trng",
+          fallback: "ipfs-only-on-network-error",
+        })
+      ).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+        status: 401,
+        details: expect.objectContaining({ code: "AUTH_FAILED" }),
+      });
+    });
+
+    it("should not switch to IPFS without credentials", async () => {
+      ctrngService = new CTRNGService(
+        { ...mockIpfsOnlyConfig, fallback: "never" },
+        mockGetToken,
+        beaconService,
+        false
+      );
+
+      await expect(ctrngService.random()).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+      await expect(ctrngService.randomBatch(2)).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+      await expect(ctrngService.randomInt(1, 6)).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+    });
+
+    it("should let requests override the configured mode", async () => {
+      ctrngService = new CTRNGService(
+        { ...mockConfig, fallback: "never" },
+        mockGetToken,
+        beaconService,
+        false
+      );
+      rejectAuth();
+
+      await expect(ctrngService.randomBytes(4)).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+      const result = await ctrngService.randomBatch(
+        2,
+        { src: "trng", fallback: "auto" },
+        { concurrency: 1 }
+      );
+      expect(result.data.map((value) => value.data)).toEqual(["10", "20"]);
+    });
+  });
+
+  describe("randomMixed", () => {
+    const beaconResponse = {
+      data: {
+        sequence: 42,
+        timestamp: "2024-01-01T00:00:00.000Z",
+        ctrng: [10, 20, 30],
+      },
+      metadata: {},
+      success: true,
+    };
+
+    beforeEach(() => {
+      mockGetToken.mockResolvedValue("test-token");
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({ service: "trng", src: "trng", data: "abcd" }),
+        headers: new Map(),
+      });
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue(beaconResponse);
+    });
+
+    it("should mix every source and report the inputs", async () => {
+      const result = await ctrngService.randomMixed({
+        sources: ["trng", "ipfs", "local"],
+      });
+
+      expect(result.data.data).toHaveLength(64);
+      expect(result.data.inputs).toEqual([
+        expect.objectContaining({
+          source: "trng",
+          bytes: 4,
+          provenance: expect.objectContaining({ source: "trng" }),
+        }),
+        expect.objectContaining({
+          source: "ipfs",
+          bytes: "10,20,30".length,
+          provenance: expect.objectContaining({ sequence: 42 }),
+        }),
+        { source: "local", bytes: 64 },
+      ]);
+    });
+
+    it("should produce fresh output from the local source", async () => {
+      const a = await ctrngService.randomMixed({ sources: ["ipfs", "local"] });
+      const b = await ctrngService.randomMixed({ sources: ["ipfs", "local"] });
+
+      expect(Buffer.from(a.data.data).equals(Buffer.from(b.data.data))).toBe(
+        false
+      );
+    });
+
+    it("should expand the digest to the requested length", async () => {
+      const result = await ctrngService.randomMixed({
+        sources: ["local"],
+        length: 100,
+      });
+
+      expect(result.data.data).toHaveLength(100);
+    });
+
+    it("should not fall back to IPFS for failed API sources", async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new Error("API failed"));
+
+      await expect(
+        ctrngService.randomMixed({ sources: ["rng", "local"] })
+      ).rejects.toMatchObject({
+        code: "PROVIDER_UNAVAILABLE",
+        message: expect.stringContaining("rng: API failed"),
+      });
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+
+      const result = await ctrngService.randomMixed({
+        sources: ["rng", "local"],
+        minSources: 1,
+      });
+      expect(result.data.inputs[0]).toEqual({
+        source: "rng",
+        error: "API failed",
+      });
+    });
+
+    it("should leave out API sources by default without credentials", async () => {
+      ctrngService = new CTRNGService(
+        mockIpfsOnlyConfig,
+        mockGetToken,
+        beaconService,
+        false
+      );
+
+      const result = await ctrngService.randomMixed();
+
+      expect(result.data.inputs.map((input) => input.source)).toEqual([
+        "ipfs",
+        "local",
+      ]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should validate the request", async () => {
+      await expect(
+        ctrngService.randomMixed({ sources: ["trng", "trng"] })
+      ).rejects.toThrow("sources must not contain duplicates");
+      await expect(
+        ctrngService.randomMixed({ sources: ["local"], minSources: 2 })
+      ).rejects.toThrow(
+        "minSources must be a positive integer no larger than the number of sources"
+      );
+    });
+
+    it("should check minSources against the default sources", async () => {
+      ctrngService = new CTRNGService(
+        mockIpfsOnlyConfig,
+        mockGetToken,
+        beaconService,
+        false
+      );
+
+      await expect(
+        ctrngService.randomMixed({ minSources: 3 })
+      ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("seededGenerator", () => {
+    it("should seed from the requested beacon block", async () => {
+      (
+        beaconService.getBeaconWithBlockTraversal as jest.Mock
+      ).mockResolvedValue({
+        data: {
+          sequence: 42,
+          timestamp: "2024-01-01T00:00:00.000Z",
+          ctrng: [1, 2, 3],
+        },
+        metadata: { timestamp: 1, cid: "bafy-block" },
+        success: true,
+      });
+
+      const result = await ctrngService.seededGenerator({ beacon: 42 });
+
+      expect(beaconService.getBeaconWithBlockTraversal).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: mockConfig.ipfs!.defaultBeaconPath,
+          block: 42,
+        }),
+        expect.any(Object)
+      );
+      expect(result.data.sequence).toBe(42);
+      expect(result.metadata.cid).toBe("bafy-block");
+      expect(Buffer.from(result.data.bytes(16)).toString("hex")).toBe(
+        "382dfb4d3d45e4a284d9326f77df2745"
+      );
+    });
+
+    it("should validate its options", async () => {
+      await expect(
+        ctrngService.seededGenerator({ beacon: -1 })
+      ).rejects.toThrow("beacon must be 'INF' or a non-negative integer");
+      await expect(
+        ctrngService.seededGenerator({ beacon: 1, beaconPath: "beacon" })
+      ).rejects.toThrow(
+        "beaconPath must be a valid IPFS/IPNS path starting with /ipns/ or /ipfs/"
+      );
+      expect(beaconService.getBeaconWithBlockTraversal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("token rejection", () => {
+    const refreshToken = jest.fn();
+    const rejected = {
+      ok: false,
+      status: 401,
+      json: () => Promise.resolve({ error: "invalid_token" }),
+    };
+
+    beforeEach(() => {
+      mockGetToken.mockResolvedValue("revoked-token");
+      refreshToken.mockResolvedValue("new-token");
+      ctrngService = new CTRNGService(
+        mockConfig,
+        mockGetToken,
+        beaconService,
+        false,
+        undefined,
+        refreshToken
+      );
+    });
+
+    it("should replay the request once with a new token", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(rejected)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ service: "trng", src: "trng", data: "abcd" }),
+          headers: new Map(),
+        });
+
+      const result = await ctrngService.random({ src: "trng" });
+
+      expect(refreshToken).toHaveBeenCalledWith("revoked-token");
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(
+        (global.fetch as jest.Mock).mock.calls[1][1].headers.Authorization
+      ).toBe("Bearer new-token");
+      expect(result.data.provenance?.source).toBe("trng");
+    });
+
+    it("should surface TOKEN_EXPIRED when the new token is rejected too", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(rejected);
+
+      await expect(
+        ctrngService.random({ src: "trng", fallback: "never" })
+      ).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+        details: expect.objectContaining({ code: "TOKEN_EXPIRED" }),
+      });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not refresh on other API errors", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        json: () => Promise.resolve({ error: "internal" }),
+      });
+
+      await expect(
+        ctrngService.random({ src: "trng", fallback: "never" })
+      ).rejects.toMatchObject({ code: "FALLBACK_FAILED", status: 500 });
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for EntropyPool
+ */
+
+import { EntropyPool } from "../../src/services/entropy-pool";
+import { CTRNGService } from "../../src/services/ctrng";
+import { CTRNGResponse } from "../../src/types";
+
+const apiValue = (hex: string): CTRNGResponse => ({
+  service: "trng",
+  src: "trng",
+  data: hex,
+});
+
+// Beacon values are 32 bits wide, so byte * 2^24 yields that byte and three zeros
+const beaconValue = (sequence: number, byte: number): CTRNGResponse => ({
+  service: "ipfs-beacon",
+  src: "ipfs",
+  data: String(byte * 2 ** 24),
+  provenance: {
+    requestedSource: "ipfs",
+    source: "ipfs",
+    authMode: "token-less",
+    sequence,
+  },
+});
+
+const batch = (data: CTRNGResponse[]) => ({
+  data,
+  metadata: { timestamp: Date.now() },
+  success: true,
+});
+
+describe("EntropyPool", () => {
+  let randomBatch: jest.Mock;
+  let service: CTRNGService;
+  let pool: EntropyPool | undefined;
+
+  beforeEach(() => {
+    randomBatch = jest.fn();
+    service = { randomBatch } as unknown as CTRNGService;
+  });
+
+  afterEach(() => {
+    pool?.stop();
+    pool = undefined;
+  });
+
+  it("should fill to its size and serve bytes synchronously", async () => {
+    randomBatch.mockResolvedValue(batch([apiValue("00112233")]));
+    pool = new EntropyPool(service, { size: 8, batchSize: 1 });
+
+    await pool.refill();
+
+    expect(pool.available).toBe(8);
+    expect(randomBatch).toHaveBeenCalledTimes(2);
+    expect(randomBatch).toHaveBeenCalledWith(1, { fallback: "never" }, {});
+    expect(Array.from(pool.take(3))).toEqual([0x11, 0x22, 0x33]);
+    expect(pool.available).toBe(5);
+  });
+
+  it("should refill in the background below the low-water mark", async () => {
+    randomBatch.mockResolvedValue(batch([apiValue("aabbccdd")]));
+    pool = new EntropyPool(service, { size: 4, lowWater: 2 });
+    await pool.refill();
+    randomBatch.mockClear();
+
+    pool.take(2);
+    expect(randomBatch).not.toHaveBeenCalled();
+    pool.take(1);
+    expect(randomBatch).toHaveBeenCalledTimes(1);
+
+    await pool.refill();
+    expect(pool.available).toBe(4);
+  });
+
+  it("should fail instead of blocking when too few bytes are buffered", async () => {
+    randomBatch.mockResolvedValue(batch([apiValue("aabb")]));
+    pool = new EntropyPool(service, { size: 4 });
+    await pool.refill();
+    pool.take(4);
+
+    expect(() => pool!.take(2)).toThrow(
+      "Entropy pool exhausted: 2 byte(s) requested, 0 available"
+    );
+    expect(() => pool!.take(5)).toThrow(
+      "n must be a positive integer no larger than the pool size (4)"
+    );
+  });
+
+  it("should never reuse values from a beacon block it already drew from", async () => {
+    randomBatch.mockResolvedValue(
+      batch([beaconValue(7, 1), beaconValue(7, 2)])
+    );
+    pool = new EntropyPool(service, {
+      size: 12,
+      request: { src: "ipfs" },
+    });
+
+    await pool.refill();
+    expect(randomBatch).toHaveBeenCalledTimes(2);
+    expect(Array.from(pool.take(8))).toEqual([1, 0, 0, 0, 2, 0, 0, 0]);
+
+    // The background refill finds no new block
+    await pool.refill();
+    expect(randomBatch).toHaveBeenCalledTimes(3);
+    expect(pool.available).toBe(0);
+
+    randomBatch.mockResolvedValue(batch([beaconValue(8, 3)]));
+    await pool.refill();
+    expect(Array.from(pool.take(4))).toEqual([3, 0, 0, 0]);
+  });
+
+  it("should not fall back to IPFS unless the request allows it", async () => {
+    randomBatch.mockResolvedValue(batch([apiValue("00112233")]));
+
+    pool = new EntropyPool(service, { size: 4, request: { src: "rng" } });
+    await pool.refill();
+    pool.stop();
+    pool = new EntropyPool(service, {
+      size: 4,
+      request: { src: "trng", fallback: "auto" },
+    });
+    await pool.refill();
+
+    expect(randomBatch.mock.calls.map(([, request]) => request)).toEqual([
+      { src: "rng", fallback: "never" },
+      { src: "trng", fallback: "auto" },
+    ]);
+  });
+
+  it("should report refill errors to listeners", async () => {
+    const onError = jest.fn();
+    randomBatch.mockRejectedValue(new Error("API down"));
+    pool = new EntropyPool(service, { size: 4 }).on("error", onError);
+
+    await expect(pool.refill()).rejects.toThrow("API down");
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it("should wipe the buffer and refuse draws once stopped", async () => {
+    randomBatch.mockResolvedValue(batch([apiValue("aabbccdd")]));
+    pool = new EntropyPool(service, { size: 4 });
+    await pool.refill();
+
+    pool.stop();
+
+    expect(pool.running).toBe(false);
+    expect(pool.available).toBe(0);
+    expect(() => pool!.take(1)).toThrow("Entropy pool has been stopped");
+  });
+
+  it("should validate its options", () => {
+    expect(() => new EntropyPool(service, { size: 8, lowWater: 8 })).toThrow(
+      "lowWater must be a non-negative integer below size"
+    );
+    expect(() => new EntropyPool(service, { batchSize: 0 })).toThrow(
+      "batchSize must be a positive integer"
+    );
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for entropy utilities
+ */
+
+import {
+  EntropyBitPool,
+  bitLength,
+  getEntropyEncoding,
+  mixEntropy,
+  parseEntropy,
+} from "../../src/utils/entropy";
+
+describe("Entropy Utilities", () => {
+  describe("getEntropyEncoding", () => {
+    it("should treat beacon values as decimal and API values as hex", () => {
+      expect(getEntropyEncoding("ipfs")).toBe("decimal");
+      expect(getEntropyEncoding("trng")).toBe("hex");
+      expect(getEntropyEncoding("rng")).toBe("hex");
+    });
+  });
+
+  describe("bitLength", () => {
+    it("should count significant bits", () => {
+      expect(bitLength(BigInt(0))).toBe(0);
+      expect(bitLength(BigInt(1))).toBe(1);
+      expect(bitLength(BigInt(255))).toBe(8);
+      expect(bitLength(BigInt(256))).toBe(9);
+    });
+  });
+
+  describe("parseEntropy", () => {
+    it("should use four bits per hex digit", () => {
+      expect(parseEntropy("00ff", "hex")).toEqual({
+        value: BigInt(255),
+        bits: 16,
+      });
+      expect(parseEntropy("0xA", "hex")).toEqual({
+        value: BigInt(10),
+        bits: 4,
+      });
+    });
+
+    it("should read decimal values at the fixed beacon width", () => {
+      expect(parseEntropy("13", "decimal")).toEqual({
+        value: BigInt(13),
+        bits: 32,
+      });
+      expect(parseEntropy("4294967295", "decimal")).toEqual({
+        value: BigInt(4294967295),
+        bits: 32,
+      });
+    });
+
+    it("should reject decimal values wider than the beacon width", () => {
+      expect(() => parseEntropy("4294967296", "decimal")).toThrow(
+        "Invalid entropy: decimal value exceeds 32 bits"
+      );
+    });
+
+    it("should reject malformed values", () => {
+      expect(() => parseEntropy("xyz", "hex")).toThrow(
+        "Invalid entropy: expected hex string"
+      );
+      expect(() => parseEntropy("-4", "decimal")).toThrow(
+        "Invalid entropy: expected decimal integer string"
+      );
+    });
+  });
+
+  describe("EntropyBitPool", () => {
+    it("should hand out bits most significant first", () => {
+      const pool = new EntropyBitPool();
+      pool.push({ value: BigInt(0b1011), bits: 4 });
+      pool.push({ value: BigInt(0b01), bits: 2 });
+
+      expect(pool.available).toBe(6);
+      expect(pool.take(3)).toBe(BigInt(0b101));
+      expect(pool.take(3)).toBe(BigInt(0b101));
+      expect(pool.available).toBe(0);
+    });
+
+    it("should return null when not enough bits are available", () => {
+      const pool = new EntropyBitPool();
+      pool.push({ value: BigInt(1), bits: 2 });
+
+      expect(pool.take(3)).toBeNull();
+      expect(pool.available).toBe(2);
+    });
+  });
+
+  describe("mixEntropy", () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+    it("should hash length-prefixed inputs with SHA-512", async () => {
+      const inputs = [{ label: "local", bytes: Uint8Array.from([1, 2]) }];
+      const domain = encode("orbitport-entropy-mix:v1");
+      const preimage = Buffer.concat([
+        Buffer.from([0, 0, 0, domain.length]),
+        domain,
+        Buffer.from([0, 0, 0, 5]),
+        encode("local"),
+        Buffer.from([0, 0, 0, 2, 1, 2]),
+      ]);
+
+      const digest = await mixEntropy(inputs);
+
+      expect(digest).toHaveLength(64);
+      expect(hex(digest)).toBe(
+        hex(new Uint8Array(await crypto.subtle.digest("SHA-512", preimage)))
+      );
+    });
+
+    it("should not confuse inputs split at different boundaries", async () => {
+      const a = await mixEntropy([
+        { label: "trng", bytes: encode("ab") },
+        { label: "ipfs", bytes: encode("c") },
+      ]);
+      const b = await mixEntropy([
+        { label: "trng", bytes: encode("a") },
+        { label: "ipfs", bytes: encode("bc") },
+      ]);
+
+      expect(hex(a)).not.toBe(hex(b));
+    });
+  });
+});
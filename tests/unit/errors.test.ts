@@ -11,6 +11,7 @@ import {
   createValidationError,
   isRetryableError,
   isAuthError,
+  isNetworkError,
   formatErrorMessage,
 } from "../../src/utils/errors";
 
@@ -215,6 +216,30 @@ describe("Error Handling", () => {
     });
   });
 
+  describe("isNetworkError", () => {
+    it("should identify errors reaching the server", () => {
+      expect(
+        [
+          ERROR_CODES.NETWORK_ERROR,
+          ERROR_CODES.TIMEOUT,
+          ERROR_CODES.CONNECTION_FAILED,
+        ].every((code) => isNetworkError(new OrbitportSDKError("", code)))
+      ).toBe(true);
+    });
+
+    it("should not treat API responses as network errors", () => {
+      const responseErrors = [
+        new OrbitportSDKError("Auth failed", ERROR_CODES.AUTH_FAILED),
+        new OrbitportSDKError("API error", ERROR_CODES.API_ERROR),
+        new OrbitportSDKError("Unavailable", ERROR_CODES.SERVICE_UNAVAILABLE),
+      ];
+
+      responseErrors.forEach((error) => {
+        expect(isNetworkError(error)).toBe(false);
+      });
+    });
+  });
+
   describe("formatErrorMessage", () => {
     it("should format known error messages", () => {
       const testCases = [
@@ -3,7 +3,18 @@
  */
 
 import { BeaconService } from "../../src/services/beacon";
+import { MemoryBeaconBlockCache } from "../../src/storage";
 import { BeaconComparison } from "../../src/types";
+import { CID_CODECS } from "../../src/utils/cid";
+import {
+  createBeaconChain,
+  createCAR,
+  createCID,
+  createCIDBytes,
+  createIPNSKey,
+  createIPNSRecord,
+  MockBeaconBlock,
+} from "../helpers/ipfs";
 
 // No need to mock ipfs-http-client since we're using direct HTTP calls
 
@@ -17,13 +28,49 @@ const mockConfig = {
 };
 
 describe("IPFSService", () => {
-  let ipfsService: IPFSService;
+  let ipfsService: BeaconService;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    ipfsService = new IPFSService(mockConfig, true);
+    ipfsService = new BeaconService(mockConfig, true);
   });
 
+  // One block per minute, keyed by sequence
+  const blocks = (sequences: number[]) =>
+    sequences.map((sequence) => ({
+      sequence,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, sequence)).toISOString(),
+    }));
+
+  // Serves the chain by CID from both sources, with optional API overrides
+  const mockChain = (
+    chain: MockBeaconBlock[],
+    apiOverrides: Record<string, string> = {},
+    gatewayOverrides: Record<string, Uint8Array> = {}
+  ) => {
+    const byCid = new Map(chain.map((block) => [block.cid, block]));
+    const head = chain[chain.length - 1];
+
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      if (url.includes("/api/v0/name/resolve")) {
+        return { ok: true, json: async () => ({ Path: `/ipfs/${head.cid}` }) };
+      }
+      if (url.includes("/api/v0/cat")) {
+        const cid = decodeURIComponent(url.split("arg=")[1]).slice(6);
+        return {
+          ok: true,
+          text: async () => apiOverrides[cid] ?? byCid.get(cid)!.json,
+        };
+      }
+      if (url.includes("/ipns/")) {
+        return { ok: true, text: async () => head.json };
+      }
+      const cid = url.split("/ipfs/")[1].replace("?format=raw", "");
+      const bytes = gatewayOverrides[cid] ?? byCid.get(cid)!.bytes;
+      return { ok: true, arrayBuffer: async () => bytes.buffer };
+    });
+  };
+
   describe("getBeacon", () => {
     it("should fetch from both gateway and api and compare them when sources is 'both'", async () => {
       const mockBeaconData = {
@@ -356,4 +403,1243 @@ describe("IPFSService", () => {
       }
     });
   });
+
+  describe("integrity verification", () => {
+    const beaconJson = JSON.stringify({
+      previous: "/ipfs/previous-cid",
+      data: {
+        sequence: 500,
+        timestamp: "2024-01-01T00:00:00.000Z",
+        ctrng: [1, 2, 3],
+      },
+    });
+    const block = new TextEncoder().encode(beaconJson);
+
+    it("should request raw blocks and verify them against the CID", async () => {
+      const cid = await createCID(CID_CODECS.RAW, block);
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(block.buffer),
+      });
+
+      const result = await ipfsService.getBeacon({
+        path: `/ipfs/${cid}`,
+        sources: ["gateway"],
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://mock-gateway.com/ipfs/${cid}?format=raw`,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Accept: "application/vnd.ipld.raw",
+          }),
+        })
+      );
+      expect(result.data).toHaveProperty("sequence", 500);
+    });
+
+    it("should fail with INTEGRITY_ERROR when the block does not match", async () => {
+      const cid = await createCID(CID_CODECS.RAW, block);
+      const tampered = new TextEncoder().encode(
+        beaconJson.replace('"sequence":500', '"sequence":501')
+      );
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(tampered.buffer),
+      });
+
+      await expect(
+        ipfsService.getBeacon({ path: `/ipfs/${cid}`, sources: ["gateway"] })
+      ).rejects.toMatchObject({ code: "INTEGRITY_ERROR" });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip verification when disabled", async () => {
+      ipfsService = new BeaconService(
+        { ...mockConfig, verifyIntegrity: false },
+        true
+      );
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(beaconJson),
+      });
+
+      const result = await ipfsService.getBeacon({
+        path: "/ipfs/unverified-cid",
+        sources: ["gateway"],
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://mock-gateway.com/ipfs/unverified-cid",
+        expect.any(Object)
+      );
+      expect(result.data).toHaveProperty("sequence", 500);
+    });
+  });
+
+  describe("verifyChain", () => {
+    it("should report a valid chain", async () => {
+      mockChain(await createBeaconChain(blocks([99, 100, 101, 102, 103])));
+
+      const result = await ipfsService.verifyChain(100, 103, "/ipns/beacon");
+
+      expect(result.data).toEqual({
+        valid: true,
+        fromSequence: 100,
+        toSequence: 103,
+        headSequence: 103,
+        blocksChecked: 4,
+        gaps: [],
+        forks: [],
+        timestampViolations: [],
+        unresolved: [],
+      });
+    });
+
+    it("should only check links inside the requested range", async () => {
+      mockChain(await createBeaconChain(blocks([100, 101, 102, 110, 111])));
+
+      const result = await ipfsService.verifyChain(100, 102, "/ipns/beacon");
+
+      expect(result.data.valid).toBe(true);
+      expect(result.data.blocksChecked).toBe(3);
+      expect(result.data.gaps).toEqual([]);
+      expect(
+        (await ipfsService.verifyChain(101, 110, "/ipns/beacon")).data.gaps
+      ).toEqual([
+        expect.objectContaining({ sequence: 110, previousSequence: 102 }),
+      ]);
+    });
+
+    it("should report gaps in the sequence", async () => {
+      const chain = await createBeaconChain(blocks([100, 101, 103, 104]));
+      mockChain(chain);
+
+      const result = await ipfsService.verifyChain(100, 104, "/ipns/beacon");
+
+      expect(result.data.valid).toBe(false);
+      expect(result.data.gaps).toEqual([
+        {
+          sequence: 103,
+          previousSequence: 101,
+          previous: `/ipfs/${chain[1].cid}`,
+        },
+      ]);
+    });
+
+    it("should report timestamps that move backwards", async () => {
+      const chain = await createBeaconChain([
+        { sequence: 100, timestamp: "2024-01-01T00:10:00.000Z" },
+        { sequence: 101, timestamp: "2024-01-01T00:05:00.000Z" },
+        { sequence: 102, timestamp: "2024-01-01T00:15:00.000Z" },
+      ]);
+      mockChain(chain);
+
+      const result = await ipfsService.verifyChain(100, 102, "/ipns/beacon");
+
+      expect(result.data.timestampViolations).toEqual([
+        {
+          sequence: 101,
+          timestamp: "2024-01-01T00:05:00.000Z",
+          previousSequence: 100,
+          previousTimestamp: "2024-01-01T00:10:00.000Z",
+        },
+      ]);
+      expect(result.data.gaps).toEqual([]);
+    });
+
+    it("should report forks where the sources disagree", async () => {
+      const chain = await createBeaconChain(blocks([100, 101, 102]));
+      const forked = JSON.parse(chain[1].json);
+      forked.previous = "/ipfs/other-block";
+      mockChain(chain, { [chain[1].cid]: JSON.stringify(forked) });
+
+      const result = await ipfsService.verifyChain(100, 102, "/ipns/beacon");
+
+      expect(result.data.forks).toEqual([
+        {
+          sequence: 101,
+          path: `/ipfs/${chain[1].cid}`,
+          differences: {
+            previous: {
+              gateway: `/ipfs/${chain[0].cid}`,
+              api: "/ipfs/other-block",
+            },
+          },
+        },
+      ]);
+      // The verified gateway copy is followed to the end of the range
+      expect(result.data.blocksChecked).toBe(3);
+    });
+
+    it("should report links that do not resolve to their CID", async () => {
+      const chain = await createBeaconChain(blocks([100, 101, 102]));
+      mockChain(chain, {}, { [chain[0].cid]: chain[1].bytes });
+
+      const result = await ipfsService.verifyChain(100, 102, "/ipns/beacon");
+
+      expect(result.data.valid).toBe(false);
+      expect(result.data.unresolved).toEqual([
+        {
+          sequence: 101,
+          previous: `/ipfs/${chain[0].cid}`,
+          error: expect.stringContaining("Integrity check failed"),
+        },
+      ]);
+    });
+
+    it("should report a chain that ends before the range", async () => {
+      mockChain(await createBeaconChain(blocks([101, 102])));
+
+      const result = await ipfsService.verifyChain(100, 102, "/ipns/beacon");
+
+      expect(result.data.unresolved).toEqual([
+        { sequence: 101, error: "Block has no previous link" },
+      ]);
+    });
+
+    it("should reject invalid ranges", async () => {
+      await expect(
+        ipfsService.verifyChain(5, 4, "/ipns/beacon")
+      ).rejects.toMatchObject({ code: "INVALID_REQUEST" });
+      await expect(ipfsService.verifyChain(1, 2)).rejects.toThrow(
+        "No beacon path provided"
+      );
+    });
+
+    it("should reject ranges beyond the head", async () => {
+      mockChain(await createBeaconChain(blocks([100, 101])));
+
+      await expect(
+        ipfsService.verifyChain(100, 105, "/ipns/beacon")
+      ).rejects.toThrow("Requested block 105 is greater than current block 101");
+    });
+  });
+
+  describe("history", () => {
+    const collect = async (iterable: AsyncIterable<{ sequence: number }>) => {
+      const sequences: number[] = [];
+      for await (const beacon of iterable) {
+        sequences.push(beacon.sequence);
+      }
+      return sequences;
+    };
+
+    it("should yield blocks from the head back to the start of the chain", async () => {
+      mockChain(await createBeaconChain(blocks([100, 101, 102, 103])));
+
+      expect(
+        await collect(ipfsService.history({ path: "/ipns/beacon" }))
+      ).toEqual([103, 102, 101, 100]);
+    });
+
+    it("should start from a given CID", async () => {
+      const chain = await createBeaconChain(blocks([100, 101, 102, 103]));
+      mockChain(chain);
+
+      expect(await collect(ipfsService.history({ cid: chain[1].cid }))).toEqual(
+        [101, 100]
+      );
+    });
+
+    it("should stop after limit blocks", async () => {
+      mockChain(await createBeaconChain(blocks([100, 101, 102, 103])));
+
+      expect(
+        await collect(ipfsService.history({ path: "/ipns/beacon", limit: 2 }))
+      ).toEqual([103, 102]);
+      // Head plus one previous block, read from both sources
+      expect(global.fetch).toHaveBeenCalledTimes(5);
+    });
+
+    it("should stop at untilSequence and untilTimestamp", async () => {
+      const chain = await createBeaconChain(blocks([100, 101, 102, 103]));
+      mockChain(chain);
+
+      expect(
+        await collect(
+          ipfsService.history({ path: "/ipns/beacon", untilSequence: 102 })
+        )
+      ).toEqual([103, 102]);
+      expect(
+        await collect(
+          ipfsService.history({
+            path: "/ipns/beacon",
+            untilTimestamp: JSON.parse(chain[1].json).data.timestamp,
+          })
+        )
+      ).toEqual([103, 102, 101]);
+    });
+
+    it("should end when the signal is aborted", async () => {
+      mockChain(await createBeaconChain(blocks([100, 101, 102, 103])));
+      const controller = new AbortController();
+      const sequences: number[] = [];
+
+      for await (const beacon of ipfsService.history({
+        path: "/ipns/beacon",
+        signal: controller.signal,
+      })) {
+        sequences.push(beacon.sequence);
+        controller.abort();
+      }
+
+      expect(sequences).toEqual([103]);
+    });
+
+    it("should reject invalid options", async () => {
+      await expect(
+        collect(ipfsService.history({ path: "/ipns/beacon", limit: 0 }))
+      ).rejects.toThrow("limit must be a positive integer");
+      await expect(
+        collect(ipfsService.history({ path: "/ipns/beacon", cid: "bafy" }))
+      ).rejects.toThrow("path and cid cannot be used together");
+    });
+  });
+
+  describe("block cache", () => {
+    let cache: MemoryBeaconBlockCache;
+
+    beforeEach(() => {
+      cache = new MemoryBeaconBlockCache();
+      ipfsService = new BeaconService({ ...mockConfig, blockCache: cache });
+    });
+
+    it("should cache /ipfs/ blocks but not IPNS heads", async () => {
+      const chain = await createBeaconChain(blocks([100, 101]));
+      mockChain(chain);
+
+      await ipfsService.getBeacon({ path: "/ipns/beacon" });
+      await ipfsService.getBeacon({ path: `/ipfs/${chain[0].cid}` });
+      (global.fetch as jest.Mock).mockClear();
+
+      await ipfsService.getBeacon({ path: "/ipns/beacon" });
+      const cached = await ipfsService.getBeacon({
+        path: `/ipfs/${chain[0].cid}`,
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(cached.data).toHaveProperty("sequence", 100);
+      // Blocks are only indexed when reached from a beacon's head
+      expect(await cache.getCID("/ipns/beacon", 100)).toBeNull();
+    });
+
+    it("should only fetch the head when traversing to a cached block", async () => {
+      mockChain(await createBeaconChain(blocks([100, 101, 102, 103])));
+      const request = { path: "/ipns/beacon", sources: ["gateway" as const] };
+
+      await ipfsService.getBeaconWithBlockTraversal({ ...request, block: 100 });
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      (global.fetch as jest.Mock).mockClear();
+
+      const result = await ipfsService.getBeaconWithBlockTraversal({
+        ...request,
+        block: 101,
+      });
+
+      expect(result.data).toHaveProperty("sequence", 101);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not jump to blocks indexed on an abandoned fork", async () => {
+      const forkTime = (sequence: number) =>
+        new Date(Date.UTC(2024, 0, 2, 0, sequence)).toISOString();
+      const request = { path: "/ipns/beacon", sources: ["gateway" as const] };
+
+      mockChain(await createBeaconChain(blocks([100, 101, 102, 103])));
+      await ipfsService.getBeaconWithBlockTraversal({ ...request, block: 100 });
+      const fork = await createBeaconChain([
+        ...blocks([100]),
+        ...[101, 102, 103].map((sequence) => ({
+          sequence,
+          timestamp: forkTime(sequence),
+        })),
+      ]);
+      mockChain(fork);
+
+      const result = await ipfsService.getBeaconWithBlockTraversal({
+        ...request,
+        block: 101,
+      });
+
+      expect(result.data).toHaveProperty("timestamp", forkTime(101));
+      expect(await cache.getCID("/ipns/beacon", 101)).toBe(fork[1].cid);
+    });
+
+    it("should not jump to blocks indexed for another beacon", async () => {
+      const chainA = await createBeaconChain(blocks([100, 101, 102]));
+      const chainB = await createBeaconChain(blocks([99, 100, 101, 102]));
+
+      mockChain(chainA);
+      await ipfsService.getBeaconWithBlockTraversal({
+        path: "/ipns/beacon-a",
+        sources: ["gateway"],
+        block: 100,
+      });
+      mockChain(chainB);
+      const result = await ipfsService.getBeaconWithBlockTraversal({
+        path: "/ipns/beacon-b",
+        sources: ["gateway"],
+        block: 100,
+      });
+
+      expect(result.data).toHaveProperty("previous", `/ipfs/${chainB[0].cid}`);
+      expect(await cache.getCID("/ipns/beacon-a", 100)).toBe(chainA[0].cid);
+      expect(await cache.getCID("/ipns/beacon-b", 100)).toBe(chainB[1].cid);
+    });
+
+    it("should not cache blocks the sources disagree on", async () => {
+      const chain = await createBeaconChain(blocks([100, 101]));
+      mockChain(chain, {
+        [chain[0].cid]: chain[0].json.replace('"sequence":100', '"sequence":99'),
+      });
+
+      await ipfsService.getBeacon({
+        path: `/ipfs/${chain[0].cid}`,
+        enableComparison: true,
+      });
+
+      expect(await cache.get(chain[0].cid)).toBeNull();
+    });
+
+    it("should bypass the cache when verifying the chain", async () => {
+      const chain = await createBeaconChain(blocks([100, 101]));
+      mockChain(chain);
+      await cache.set(chain[0].cid, { ...JSON.parse(chain[0].json).data });
+
+      const result = await ipfsService.verifyChain(100, 101, "/ipns/beacon");
+
+      expect(result.data.valid).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/ipfs/${chain[0].cid}?format=raw`),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("getBeaconAt", () => {
+    const sequences = Array.from({ length: 40 }, (_, i) => 100 + i);
+    const minute = (sequence: number, seconds = 0) =>
+      new Date(Date.UTC(2024, 0, 1, 0, sequence, seconds));
+    const lookup = { path: "/ipns/beacon", sources: ["gateway" as const] };
+
+    it("should return the block current at the instant", async () => {
+      mockChain(await createBeaconChain(blocks(sequences)));
+
+      const result = await ipfsService.getBeaconAt(minute(105, 30), lookup);
+
+      expect(result.data.sequence).toBe(105);
+    });
+
+    it("should return the first block published after the instant", async () => {
+      mockChain(await createBeaconChain(blocks(sequences)));
+
+      const result = await ipfsService.getBeaconAt(minute(105), {
+        ...lookup,
+        direction: "after",
+      });
+
+      expect(result.data.sequence).toBe(106);
+    });
+
+    it("should accept ISO strings and exact timestamps", async () => {
+      mockChain(await createBeaconChain(blocks(sequences)));
+
+      const result = await ipfsService.getBeaconAt(
+        minute(120).toISOString(),
+        lookup
+      );
+
+      expect(result.data.sequence).toBe(120);
+    });
+
+    it("should handle gaps in the sequence", async () => {
+      mockChain(
+        await createBeaconChain(blocks(sequences.filter((s) => s !== 130)))
+      );
+
+      expect(
+        (await ipfsService.getBeaconAt(minute(130, 30), lookup)).data.sequence
+      ).toBe(129);
+      expect(
+        (
+          await ipfsService.getBeaconAt(minute(129, 30), {
+            ...lookup,
+            direction: "after",
+          })
+        ).data.sequence
+      ).toBe(131);
+    });
+
+    it("should return the head for instants after it", async () => {
+      mockChain(await createBeaconChain(blocks(sequences)));
+
+      const result = await ipfsService.getBeaconAt(minute(200), lookup);
+
+      expect(result.data.sequence).toBe(139);
+      await expect(
+        ipfsService.getBeaconAt(minute(200), { ...lookup, direction: "after" })
+      ).rejects.toThrow("No beacon published after");
+    });
+
+    it("should handle instants before the first block", async () => {
+      mockChain(await createBeaconChain(blocks(sequences)));
+
+      await expect(
+        ipfsService.getBeaconAt(minute(50), lookup)
+      ).rejects.toMatchObject({ code: "INVALID_REQUEST" });
+      const result = await ipfsService.getBeaconAt(minute(50), {
+        ...lookup,
+        direction: "after",
+      });
+      expect(result.data.sequence).toBe(100);
+    });
+
+    it("should walk back one block at a time without a cache index", async () => {
+      mockChain(await createBeaconChain(blocks(sequences)));
+
+      const result = await ipfsService.getBeaconAt(minute(134, 30), lookup);
+
+      expect(result.data.sequence).toBe(134);
+      // The head and blocks 138 down to 134, and nothing below the match
+      expect(global.fetch).toHaveBeenCalledTimes(6);
+    });
+
+    it("should use the block cache index to skip walking the chain", async () => {
+      const chain = await createBeaconChain(blocks(sequences));
+      const cache = new MemoryBeaconBlockCache();
+      for (const block of chain) {
+        const { previous, data } = JSON.parse(block.json);
+        await cache.set(block.cid, { ...data, previous });
+        await cache.index("/ipns/beacon", data.sequence, block.cid);
+      }
+      ipfsService = new BeaconService({ ...mockConfig, blockCache: cache });
+      mockChain(chain);
+
+      const result = await ipfsService.getBeaconAt(minute(105, 30), lookup);
+
+      expect(result.data.sequence).toBe(105);
+      // Only the IPNS head is fetched; every probe is served from the cache
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject invalid dates", async () => {
+      await expect(
+        ipfsService.getBeaconAt("not a date", lookup)
+      ).rejects.toThrow("date must be a valid date");
+    });
+  });
+
+  describe("watch", () => {
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 200 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      expect(condition()).toBe(true);
+    };
+
+    it("should emit the head and then every new block in order", async () => {
+      const chain = await createBeaconChain(
+        blocks([100, 101, 102, 103, 104, 105])
+      );
+      mockChain(chain.slice(0, 3));
+      const sequences: number[] = [];
+
+      const watcher = ipfsService
+        .watch("/ipns/beacon", { interval: 10, sources: ["gateway"] })
+        .on("beacon", (beacon) => sequences.push(beacon.sequence));
+
+      await waitFor(() => sequences.length === 1);
+      // Three blocks are published before the next poll
+      mockChain(chain);
+      await waitFor(() => sequences.length === 4);
+      // Let a few more polls run against the same head
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      watcher.stop();
+
+      expect(sequences).toEqual([102, 103, 104, 105]);
+      expect(watcher.running).toBe(false);
+    });
+
+    it("should support async iteration and stop when the loop exits", async () => {
+      const chain = await createBeaconChain(blocks([100, 101, 102]));
+      mockChain(chain.slice(0, 2));
+      const watcher = ipfsService.watch("/ipns/beacon", {
+        interval: 10,
+        sources: ["gateway"],
+      });
+      const sequences: number[] = [];
+
+      for await (const beacon of watcher) {
+        sequences.push(beacon.sequence);
+        if (sequences.length === 1) {
+          mockChain(chain);
+        } else {
+          break;
+        }
+      }
+
+      expect(sequences).toEqual([101, 102]);
+      expect(watcher.running).toBe(false);
+    });
+
+    it("should report poll errors and keep polling", async () => {
+      const chain = await createBeaconChain(blocks([100, 101]));
+      (global.fetch as jest.Mock).mockRejectedValue(new Error("offline"));
+      const errors: Error[] = [];
+      const sequences: number[] = [];
+
+      const watcher = ipfsService
+        .watch("/ipns/beacon", { interval: 10, sources: ["gateway"], retries: 1 })
+        .on("error", (error) => errors.push(error))
+        .on("beacon", (beacon) => sequences.push(beacon.sequence));
+
+      await waitFor(() => errors.length > 0);
+      mockChain(chain);
+      await waitFor(() => sequences.length === 1);
+      watcher.stop();
+
+      expect(errors[0].message).toContain("offline");
+      expect(sequences).toEqual([101]);
+    });
+
+    it("should reject invalid intervals", () => {
+      expect(() =>
+        ipfsService.watch("/ipns/beacon", { interval: 0 })
+      ).toThrow("interval must be a positive number");
+    });
+  });
+
+  describe("quorum reads", () => {
+    const beacon = (sequence: number, previous = "/ipfs/parent") =>
+      JSON.stringify({
+        previous,
+        data: { sequence, timestamp: "2024-01-01T00:00:00.000Z", ctrng: [1] },
+      });
+
+    // Answers each host with its own beacon JSON (or an error status)
+    const mockNodes = (answers: Record<string, string | number>) => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+        const host = Object.keys(answers).find((h) => url.includes(h))!;
+        const answer = answers[host];
+        if (typeof answer === "number") {
+          return { ok: false, status: answer };
+        }
+        return {
+          ok: true,
+          text: async () => answer,
+          json: async () => ({ Path: "/ipfs/head" }),
+        };
+      });
+    };
+
+    const nodes = {
+      customNodes: [
+        { url: "https://gateway-b.com", type: "gateway" as const },
+        { url: "https://gateway-c.com", type: "gateway" as const },
+      ],
+    };
+
+    it("should read from every configured node and report agreement", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes });
+      mockNodes({
+        "mock-gateway.com": beacon(10),
+        "mock-api.com": beacon(10),
+        "gateway-b.com": beacon(10),
+        "gateway-c.com": beacon(9),
+      });
+
+      const result = await ipfsService.getBeacon({
+        path: "/ipns/beacon",
+        enableComparison: true,
+      });
+      const quorum = (result.data as BeaconComparison).quorum!;
+
+      expect(quorum).toMatchObject({
+        reached: true,
+        threshold: 3,
+        agreeing: 3,
+      });
+      expect(quorum.beacon?.sequence).toBe(10);
+      expect(quorum.votes).toHaveLength(4);
+      expect(quorum.votes[3]).toEqual({
+        source: "gateway:https://gateway-c.com",
+        sequence: 9,
+        previous: "/ipfs/parent",
+      });
+    });
+
+    it("should tolerate one lying gateway out of three", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes });
+      mockNodes({
+        "mock-gateway.com": beacon(10, "/ipfs/forged"),
+        "gateway-b.com": beacon(10),
+        "gateway-c.com": beacon(10),
+      });
+
+      const result = await ipfsService.getBeacon({
+        path: "/ipns/beacon",
+        sources: ["gateway"],
+        enableComparison: true,
+      });
+      const quorum = (result.data as BeaconComparison).quorum!;
+
+      expect(quorum.reached).toBe(true);
+      expect(quorum.beacon?.previous).toBe("/ipfs/parent");
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should count failed nodes as votes against", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes });
+      mockNodes({
+        "mock-gateway.com": beacon(10),
+        "mock-api.com": 500,
+        "gateway-b.com": 500,
+        "gateway-c.com": beacon(10),
+      });
+
+      const result = await ipfsService.getBeacon(
+        { path: "/ipns/beacon", enableComparison: true },
+        { retries: 1 }
+      );
+      const quorum = (result.data as BeaconComparison).quorum!;
+
+      expect(quorum.reached).toBe(false);
+      expect(quorum.beacon).toBeNull();
+      expect(quorum.votes.filter((vote) => vote.error)).toHaveLength(2);
+    });
+
+    it("should report the quorum in the metadata when one node answered", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes });
+      mockNodes({
+        "mock-gateway.com": 502,
+        "mock-api.com": 500,
+        "gateway-b.com": beacon(10),
+        "gateway-c.com": 502,
+      });
+
+      const result = await ipfsService.getBeacon(
+        { path: "/ipns/beacon", enableComparison: true },
+        { retries: 1 }
+      );
+
+      expect(result.data).toHaveProperty("sequence", 10);
+      expect(result.metadata.quorum).toMatchObject({
+        reached: false,
+        threshold: 3,
+        agreeing: 1,
+      });
+    });
+
+    it("should count nodes skipped during the cool-down against the quorum", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes });
+      mockNodes({
+        "mock-gateway.com": 502,
+        "gateway-b.com": beacon(10),
+        "gateway-c.com": 502,
+        "mock-api.com": beacon(10),
+      });
+      for (let i = 0; i < 3; i++) {
+        await ipfsService.getBeacon(
+          { path: "/ipns/beacon", enableComparison: true },
+          { retries: 1 }
+        );
+      }
+
+      const result = await ipfsService.getBeacon(
+        { path: "/ipns/beacon", enableComparison: true },
+        { retries: 1 }
+      );
+
+      const quorum = (result.data as BeaconComparison).quorum!;
+      expect(quorum).toMatchObject({ reached: false, threshold: 3 });
+      expect(quorum.votes).toContainEqual({
+        source: "gateway:https://gateway-c.com",
+        error: "Node skipped while cooling down",
+      });
+    });
+
+    it("should honour a configured quorum threshold", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes, quorum: 2 });
+      mockNodes({
+        "mock-gateway.com": beacon(10),
+        "mock-api.com": 500,
+        "gateway-b.com": 500,
+        "gateway-c.com": beacon(10),
+      });
+
+      const result = await ipfsService.getBeacon(
+        { path: "/ipns/beacon", enableComparison: true },
+        { retries: 1 }
+      );
+
+      expect((result.data as BeaconComparison).quorum?.reached).toBe(true);
+    });
+
+    it("should order nodes by priority", async () => {
+      ipfsService = new BeaconService({
+        ...mockConfig,
+        customNodes: [
+          { url: "https://gateway-b.com", type: "gateway", priority: -1 },
+        ],
+      });
+      mockNodes({
+        "gateway-b.com": beacon(11),
+        "mock-gateway.com": beacon(10),
+      });
+
+      const result = await ipfsService.getBeacon({
+        path: "/ipns/beacon",
+        sources: ["gateway"],
+      });
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain(
+        "gateway-b.com"
+      );
+      expect(result.data).toHaveProperty("sequence", 11);
+    });
+
+    it("should outvote a gateway returning a tampered block", async () => {
+      const block = new TextEncoder().encode(beacon(10));
+      const cid = await createCID(CID_CODECS.RAW, block);
+      const tampered = new TextEncoder().encode(beacon(11));
+      ipfsService = new BeaconService({ ...mockConfig, ...nodes });
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        arrayBuffer: async () =>
+          (url.includes("gateway-c.com") ? tampered : block).buffer,
+        text: async () => beacon(10),
+      }));
+
+      const result = await ipfsService.getBeacon({
+        path: `/ipfs/${cid}`,
+        enableComparison: true,
+      });
+      const quorum = (result.data as BeaconComparison).quorum!;
+
+      expect(quorum.reached).toBe(true);
+      expect(quorum.votes[3].error).toContain("Integrity check failed");
+    });
+  });
+
+  describe("node health", () => {
+    const beaconJson = (sequence: number) =>
+      JSON.stringify({
+        previous: "/ipfs/parent",
+        data: { sequence, timestamp: "2024-01-01T00:00:00.000Z", ctrng: [1] },
+      });
+
+    it("should report staleness and errors per node", async () => {
+      ipfsService = new BeaconService({
+        ...mockConfig,
+        customNodes: [{ url: "https://gateway-b.com", type: "gateway" }],
+      });
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+        if (url.includes("mock-api.com")) {
+          return { ok: false, status: 500 };
+        }
+        const sequence = url.includes("gateway-b.com") ? 8 : 10;
+        return { ok: true, text: async () => beaconJson(sequence) };
+      });
+
+      await ipfsService.getBeacon({ path: "/ipns/beacon" }, { retries: 1 });
+      const health = ipfsService.getNodeHealth();
+
+      expect(health.map((node) => node.source)).toEqual([
+        "gateway:https://mock-gateway.com",
+        "api:https://mock-api.com:5001",
+        "gateway:https://gateway-b.com",
+      ]);
+      expect(health[0]).toMatchObject({ requests: 1, staleness: 0 });
+      expect(health[1]).toMatchObject({ failures: 1, lastSequence: null });
+      expect(health[2]).toMatchObject({ lastSequence: 8, staleness: 2 });
+    });
+
+    it("should skip nodes that keep failing during the cool-down", async () => {
+      ipfsService = new BeaconService({
+        ...mockConfig,
+        customNodes: [{ url: "https://gateway-b.com", type: "gateway" }],
+      });
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        url.includes("mock-gateway.com")
+          ? { ok: false, status: 502 }
+          : { ok: true, text: async () => beaconJson(10) }
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await ipfsService.getBeacon(
+          { path: "/ipns/beacon", sources: ["gateway"] },
+          { retries: 1 }
+        );
+      }
+      (global.fetch as jest.Mock).mockClear();
+      await ipfsService.getBeacon(
+        { path: "/ipns/beacon", sources: ["gateway"] },
+        { retries: 1 }
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain(
+        "gateway-b.com"
+      );
+      expect(ipfsService.getNodeHealth()).toContainEqual(
+        expect.objectContaining({
+          source: "gateway:https://mock-gateway.com",
+          coolingDown: true,
+        })
+      );
+    });
+
+    it("should still read cooling nodes when no others are available", async () => {
+      ipfsService = new BeaconService({ ...mockConfig, nodeCooldown: 60000 });
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 502 });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          ipfsService.getBeacon(
+            { path: "/ipns/beacon", sources: ["gateway"] },
+            { retries: 1 }
+          )
+        ).rejects.toThrow();
+      }
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => beaconJson(10),
+      });
+
+      const result = await ipfsService.getBeacon(
+        { path: "/ipns/beacon", sources: ["gateway"] },
+        { retries: 1 }
+      );
+      expect(result.data).toHaveProperty("sequence", 10);
+    });
+
+    it("should try the API first in fallback reads once the gateway is unhealthy", async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        url.includes("mock-gateway.com")
+          ? { ok: false, status: 502 }
+          : {
+            ok: true,
+            text: async () => beaconJson(10),
+            json: async () => ({ Path: "/ipfs/head" }),
+          }
+      );
+
+      await ipfsService.getBeaconWithFallback("/ipns/beacon", { retries: 1 });
+      (global.fetch as jest.Mock).mockClear();
+      await ipfsService.getBeaconWithFallback("/ipns/beacon", { retries: 1 });
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain(
+        "mock-api.com"
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("trustless CAR gateway", () => {
+    const carConfig = {
+      ...mockConfig,
+      customNodes: [
+        { url: "https://car.example.com", type: "car" as const, priority: -1 },
+      ],
+    };
+
+    // Serves the CAR to the trustless node and fails every other node
+    const mockCar = (car: Uint8Array) =>
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        url.startsWith("https://car.example.com")
+          ? { ok: true, arrayBuffer: async () => car.buffer }
+          : { ok: false, status: 502 }
+      );
+
+    it("should request a CAR file and decode the verified root block", async () => {
+      ipfsService = new BeaconService(carConfig, true);
+      const [block] = await createBeaconChain(blocks([5]));
+      const cid = await createCIDBytes(CID_CODECS.RAW, block.bytes);
+      mockCar(createCAR([cid], [{ cid, bytes: block.bytes }]));
+
+      const result = await ipfsService.getBeacon(
+        { path: `/ipfs/${block.cid}`, sources: ["gateway"] },
+        { retries: 1 }
+      );
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://car.example.com/ipfs/${block.cid}?format=car`,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Accept: "application/vnd.ipld.car",
+          }),
+        })
+      );
+      expect(result.data).toHaveProperty("sequence", 5);
+      expect(ipfsService.getNodeHealth()[0]).toMatchObject({
+        source: "car:https://car.example.com",
+        type: "car",
+        failures: 0,
+      });
+    });
+
+    it("should cache the beacon blocks linked from the requested block", async () => {
+      const cache = new MemoryBeaconBlockCache();
+      ipfsService = new BeaconService({ ...carConfig, blockCache: cache });
+      const chain = await createBeaconChain(blocks([1, 2, 3]));
+      const sections = await Promise.all(
+        chain.map(async (block) => ({
+          cid: await createCIDBytes(CID_CODECS.RAW, block.bytes),
+          bytes: block.bytes,
+        }))
+      );
+      mockCar(createCAR([sections[2].cid], sections.reverse()));
+
+      const result = await ipfsService.getBeacon(
+        { path: "/ipns/beacon", sources: ["gateway"] },
+        { retries: 1 }
+      );
+
+      expect(result.data).toHaveProperty("sequence", 3);
+      expect(await cache.get(chain[0].cid)).toHaveProperty("sequence", 1);
+      expect(await cache.get(chain[1].cid)).toHaveProperty("sequence", 2);
+    });
+
+    it("should not cache CAR blocks the requested block does not link to", async () => {
+      const cache = new MemoryBeaconBlockCache();
+      ipfsService = new BeaconService({ ...carConfig, blockCache: cache });
+      const chain = await createBeaconChain(blocks([1, 2, 3]));
+      // A valid block that claims sequence 1 but is not on the chain
+      const [, forged] = await createBeaconChain(blocks([0, 1]));
+      const sections = await Promise.all(
+        [forged, ...chain].map(async (block) => ({
+          cid: await createCIDBytes(CID_CODECS.RAW, block.bytes),
+          bytes: block.bytes,
+        }))
+      );
+      mockCar(createCAR([sections[3].cid], sections.reverse()));
+
+      await ipfsService.getBeacon(
+        { path: "/ipns/beacon", sources: ["gateway"] },
+        { retries: 1 }
+      );
+
+      expect(await cache.get(chain[0].cid)).toHaveProperty("sequence", 1);
+      expect(await cache.get(forged.cid)).toBeNull();
+    });
+
+    it("should reject CAR files with tampered blocks", async () => {
+      ipfsService = new BeaconService(carConfig);
+      const [block] = await createBeaconChain(blocks([5]));
+      const cid = await createCIDBytes(CID_CODECS.RAW, block.bytes);
+      const tampered = new TextEncoder().encode(
+        block.json.replace('"sequence":5', '"sequence":6')
+      );
+      mockCar(createCAR([cid], [{ cid, bytes: tampered }]));
+
+      await expect(
+        ipfsService.getBeacon(
+          { path: "/ipns/beacon", sources: ["gateway"] },
+          { retries: 1 }
+        )
+      ).rejects.toMatchObject({ code: "INTEGRITY_ERROR" });
+    });
+
+    it("should reject CAR files rooted at a different CID", async () => {
+      ipfsService = new BeaconService(carConfig);
+      const [requested, other] = await createBeaconChain(blocks([5, 6]));
+      const cid = await createCIDBytes(CID_CODECS.RAW, other.bytes);
+      mockCar(createCAR([cid], [{ cid, bytes: other.bytes }]));
+
+      await expect(
+        ipfsService.getBeacon(
+          { path: `/ipfs/${requested.cid}`, sources: ["gateway"] },
+          { retries: 1 }
+        )
+      ).rejects.toMatchObject({ code: "INTEGRITY_ERROR" });
+    });
+  });
+
+  describe("IPNS record validation", () => {
+    let name: string;
+    let privateKey: CryptoKey;
+    let chain: MockBeaconBlock[];
+
+    beforeAll(async () => {
+      ({ name, privateKey } = await createIPNSKey());
+      chain = await createBeaconChain(blocks([1, 2]));
+    });
+
+    beforeEach(() => {
+      ipfsService = new BeaconService({ ...mockConfig, verifyIPNS: true });
+    });
+
+    // Serves records for the given head sequence and the blocks of the chain
+    const mockRecords = (records: Record<string, Uint8Array>) =>
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+        if (url.includes("/api/v0/routing/get")) {
+          return { ok: true, arrayBuffer: async () => records.api.buffer };
+        }
+        if (url.includes("?format=ipns-record")) {
+          return { ok: true, arrayBuffer: async () => records.gateway.buffer };
+        }
+        const cid = url.includes("/api/v0/cat")
+          ? decodeURIComponent(url.split("arg=")[1]).slice(6)
+          : url.split("/ipfs/")[1].replace("?format=raw", "");
+        const block = chain.find((b) => b.cid === cid)!;
+        return {
+          ok: true,
+          text: async () => block.json,
+          arrayBuffer: async () => block.bytes.buffer,
+        };
+      });
+
+    const recordFor = (block: MockBeaconBlock, sequence: number) =>
+      createIPNSRecord(privateKey, { value: `/ipfs/${block.cid}`, sequence });
+
+    it("should resolve names through verified records on gateways and APIs", async () => {
+      const record = await recordFor(chain[1], 10);
+      mockRecords({ api: record, gateway: record });
+
+      const result = await ipfsService.getBeacon(
+        { path: `/ipns/${name}`, enableComparison: true },
+        { retries: 1 }
+      );
+
+      expect((result.data as BeaconComparison).match).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://mock-gateway.com/ipns/${name}?format=ipns-record`,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Accept: "application/vnd.ipfs.ipns-record",
+          }),
+        })
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://mock-gateway.com/ipfs/${chain[1].cid}?format=raw`,
+        expect.any(Object)
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://mock-api.com:5001/api/v0/routing/get?arg=${encodeURIComponent(
+          `/ipns/${name}`
+        )}`,
+        expect.objectContaining({ method: "POST" })
+      );
+      expect(global.fetch).not.toHaveBeenCalledWith(
+        expect.stringContaining("/api/v0/name/resolve"),
+        expect.any(Object)
+      );
+    });
+
+    it("should report the resolved CID and the agreeing nodes", async () => {
+      const record = await recordFor(chain[1], 10);
+      mockRecords({ api: record, gateway: record });
+
+      const result = await ipfsService.getBeacon(
+        { path: `/ipns/${name}`, enableComparison: true },
+        { retries: 1 }
+      );
+
+      expect(result.metadata).toMatchObject({
+        cid: chain[1].cid,
+        sources: [
+          "gateway:https://mock-gateway.com",
+          "api:https://mock-api.com:5001",
+        ],
+      });
+    });
+
+    it("should reject records older than one already accepted", async () => {
+      mockRecords({
+        api: await recordFor(chain[1], 10),
+        gateway: await recordFor(chain[1], 10),
+      });
+      await ipfsService.getBeacon(
+        { path: `/ipns/${name}`, sources: ["api"] },
+        { retries: 1 }
+      );
+
+      mockRecords({
+        api: await recordFor(chain[0], 9),
+        gateway: await recordFor(chain[0], 9),
+      });
+      await expect(
+        ipfsService.getBeacon(
+          { path: `/ipns/${name}`, sources: ["gateway"] },
+          { retries: 1 }
+        )
+      ).rejects.toMatchObject({
+        code: "INTEGRITY_ERROR",
+        message: expect.stringContaining("sequence 9"),
+      });
+    });
+
+    it("should reject records with invalid signatures", async () => {
+      const other = await createIPNSKey();
+      const forged = await createIPNSRecord(other.privateKey, {
+        value: `/ipfs/${chain[0].cid}`,
+        sequence: 99,
+      });
+      mockRecords({ api: forged, gateway: forged });
+
+      await expect(
+        ipfsService.getBeacon({ path: `/ipns/${name}` }, { retries: 1 })
+      ).rejects.toMatchObject({ code: "INTEGRITY_ERROR" });
+    });
+  });
+
+  describe("findCommonAncestor", () => {
+    const toBeacon = (block: MockBeaconBlock) => {
+      const { previous, data } = JSON.parse(block.json);
+      return { previous, ...data };
+    };
+
+    it("should detect that the newer head descends from the older one", async () => {
+      const chain = await createBeaconChain(blocks([1, 2, 3]));
+      mockChain(chain);
+
+      const result = await ipfsService.findCommonAncestor(
+        toBeacon(chain[2]),
+        toBeacon(chain[0])
+      );
+
+      expect(result.ancestor.sequence).toBe(1);
+      expect(result.forked).toBe(false);
+    });
+
+    it("should walk both heads back to the fork point", async () => {
+      const chain = await createBeaconChain(blocks([1, 2, 3]));
+      const forkJson = JSON.stringify({
+        previous: `/ipfs/${chain[0].cid}`,
+        data: { ...blocks([2])[0], ctrng: [22] },
+      });
+      const forkBytes = new TextEncoder().encode(forkJson);
+      const fork = {
+        cid: await createCID(CID_CODECS.RAW, forkBytes),
+        json: forkJson,
+        bytes: forkBytes,
+      };
+      mockChain([...chain, fork]);
+      const forkHead = { ...toBeacon(chain[2]), previous: `/ipfs/${fork.cid}` };
+
+      const result = await ipfsService.findCommonAncestor(
+        toBeacon(chain[2]),
+        forkHead,
+        { retries: 1 }
+      );
+
+      expect(result.ancestor.sequence).toBe(1);
+      expect(result.forked).toBe(true);
+    });
+
+    it("should give up after the maximum depth", async () => {
+      const chain = await createBeaconChain(blocks([1, 2, 3, 4]));
+      mockChain(chain);
+
+      await expect(
+        ipfsService.findCommonAncestor(
+          toBeacon(chain[3]),
+          toBeacon(chain[0]),
+          { retries: 1 },
+          2
+        )
+      ).rejects.toMatchObject({ code: "BEACON_DIVERGENCE" });
+    });
+  });
 });
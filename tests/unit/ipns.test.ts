@@ -0,0 +1,100 @@
+/**
+ * Unit tests for IPNS record validation
+ */
+
+import { parseCID, CID_CODECS } from "../../src/utils/cid";
+import { verifyIPNSRecord } from "../../src/utils/ipns";
+import { createIPNSKey, createIPNSRecord } from "../helpers/ipfs";
+
+describe("IPNS Utilities", () => {
+  let name: string;
+  let privateKey: CryptoKey;
+
+  beforeAll(async () => {
+    ({ name, privateKey } = await createIPNSKey());
+  });
+
+  it("should parse base36 key names as libp2p-key CIDs", () => {
+    const cid = parseCID(name);
+    expect(cid.codec).toBe(CID_CODECS.LIBP2P_KEY);
+    expect(name.startsWith("k51")).toBe(true);
+  });
+
+  it("should accept a validly signed record", async () => {
+    const record = await createIPNSRecord(privateKey, {
+      value: "/ipfs/bafyhead",
+      sequence: 7,
+      ttl: 300e9,
+    });
+
+    await expect(verifyIPNSRecord(name, record)).resolves.toEqual({
+      value: "/ipfs/bafyhead",
+      sequence: 7,
+      validity: "2999-01-01T00:00:00.000Z",
+      ttl: 300000,
+    });
+  });
+
+  it("should verify RSA records against the key hashed into the name", async () => {
+    const rsa = await createIPNSKey("RSA");
+    const fields = { value: "/ipfs/bafyhead", sequence: 3 };
+    const record = await createIPNSRecord(rsa.privateKey, {
+      ...fields,
+      publicKey: rsa.publicKey,
+    });
+
+    await expect(verifyIPNSRecord(rsa.name, record)).resolves.toMatchObject(
+      fields
+    );
+    await expect(
+      verifyIPNSRecord(rsa.name, await createIPNSRecord(rsa.privateKey, fields))
+    ).rejects.toThrow("public key does not match");
+  });
+
+  it("should reject records signed by another key", async () => {
+    const other = await createIPNSKey();
+    const record = await createIPNSRecord(other.privateKey, {
+      value: "/ipfs/bafyhead",
+      sequence: 7,
+    });
+
+    await expect(verifyIPNSRecord(name, record)).rejects.toMatchObject({
+      code: "INTEGRITY_ERROR",
+      message: expect.stringContaining("invalid signature"),
+    });
+  });
+
+  it("should reject records whose unsigned value was altered", async () => {
+    const record = await createIPNSRecord(privateKey, {
+      value: "/ipfs/bafyhead",
+      sequence: 7,
+    });
+    const altered = Uint8Array.from(record);
+    // The first field is the unsigned V1 value: "/ipfs/bafyhead"
+    altered[altered.indexOf(0x68)] = 0x78;
+
+    await expect(verifyIPNSRecord(name, altered)).rejects.toMatchObject({
+      code: "INTEGRITY_ERROR",
+      message: expect.stringContaining("do not match the signed data"),
+    });
+  });
+
+  it("should reject expired records", async () => {
+    const record = await createIPNSRecord(privateKey, {
+      value: "/ipfs/bafyhead",
+      sequence: 7,
+      validity: "2024-01-01T00:00:00.000000000Z",
+    });
+
+    await expect(verifyIPNSRecord(name, record)).rejects.toMatchObject({
+      code: "INTEGRITY_ERROR",
+      message: expect.stringContaining("expired at 2024-01-01T00:00:00.000Z"),
+    });
+  });
+
+  it("should reject malformed records", async () => {
+    await expect(
+      verifyIPNSRecord(name, Uint8Array.from([0x0a, 0x05, 0x01]))
+    ).rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for node health tracking
+ */
+
+import { NodeHealthTracker, getNodeSource } from "../../src/utils/node-health";
+import { IPFSNode } from "../../src/types";
+
+const gateway: IPFSNode = { url: "https://gateway.com", type: "gateway" };
+const api: IPFSNode = { url: "https://api.com", type: "api" };
+
+describe("NodeHealthTracker", () => {
+  let tracker: NodeHealthTracker;
+
+  beforeEach(() => {
+    tracker = new NodeHealthTracker(1000);
+  });
+
+  it("should label nodes by type and url", () => {
+    expect(getNodeSource(gateway)).toBe("gateway:https://gateway.com");
+  });
+
+  it("should report unread nodes as fully healthy", () => {
+    expect(tracker.getHealth(gateway)).toEqual({
+      source: "gateway:https://gateway.com",
+      url: "https://gateway.com",
+      type: "gateway",
+      requests: 0,
+      failures: 0,
+      errorRate: 0,
+      latency: null,
+      lastSequence: null,
+      staleness: 0,
+      coolingDown: false,
+      cooldownUntil: null,
+      score: 1,
+    });
+  });
+
+  it("should average latency and lower the score of slow nodes", () => {
+    tracker.recordSuccess(getNodeSource(gateway), 100);
+    tracker.recordSuccess(getNodeSource(gateway), 200);
+    tracker.recordSuccess(getNodeSource(api), 1000);
+
+    expect(tracker.getHealth(gateway).latency).toBeCloseTo(130);
+    expect(tracker.getHealth(api).score).toBeCloseTo(0.5);
+    expect(tracker.getHealth(gateway).score).toBeGreaterThan(
+      tracker.getHealth(api).score
+    );
+  });
+
+  it("should track error rate and recover after successes", () => {
+    const source = getNodeSource(gateway);
+    tracker.recordFailure(source, 0);
+    const afterFailure = tracker.getHealth(gateway).errorRate;
+    tracker.recordSuccess(source, 0);
+
+    expect(afterFailure).toBeCloseTo(0.3);
+    expect(tracker.getHealth(gateway).errorRate).toBeLessThan(afterFailure);
+    expect(tracker.getHealth(gateway).failures).toBe(1);
+  });
+
+  it("should cool down after repeated failures", () => {
+    const source = getNodeSource(gateway);
+    tracker.recordFailure(source, 0);
+    tracker.recordFailure(source, 0);
+    expect(tracker.isCoolingDown(source)).toBe(false);
+
+    tracker.recordFailure(source, 0);
+    expect(tracker.isCoolingDown(source)).toBe(true);
+    expect(tracker.getHealth(gateway).cooldownUntil).toBeGreaterThan(
+      Date.now()
+    );
+  });
+
+  it("should cool down immediately after a severe failure", () => {
+    tracker.recordFailure(getNodeSource(gateway), 0, true);
+
+    expect(tracker.isCoolingDown(getNodeSource(gateway))).toBe(true);
+  });
+
+  it("should end the cool-down after the period", () => {
+    jest.useFakeTimers();
+    try {
+      tracker.recordFailure(getNodeSource(gateway), 0, true);
+      jest.advanceTimersByTime(1001);
+
+      expect(tracker.isCoolingDown(getNodeSource(gateway))).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should measure staleness against the highest head seen", () => {
+    tracker.recordSequence(getNodeSource(gateway), "/ipns/beacon", 100);
+    tracker.recordSequence(getNodeSource(api), "/ipns/beacon", 98);
+
+    expect(tracker.getHealth(gateway).staleness).toBe(0);
+    expect(tracker.getHealth(api).staleness).toBe(2);
+    expect(tracker.getHealth(api).score).toBeCloseTo(1 / 3);
+  });
+
+  it("should measure staleness separately for each beacon path", () => {
+    tracker.recordSequence(getNodeSource(gateway), "/ipns/beacon-a", 100);
+    tracker.recordSequence(getNodeSource(api), "/ipns/beacon-b", 5);
+
+    expect(tracker.getHealth(gateway).staleness).toBe(0);
+    expect(tracker.getHealth(api).staleness).toBe(0);
+
+    tracker.recordSequence(getNodeSource(api), "/ipns/beacon-a", 99);
+    expect(tracker.getHealth(api).staleness).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for OrbitportSDK
+ */
+
+import { OrbitportSDK } from "../../src";
+import { StaticCredentialProvider } from "../../src/credentials";
+import { MemoryTokenStorage } from "../../src/storage";
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe("OrbitportSDK", () => {
+  const createSDK = () =>
+    new OrbitportSDK({
+      config: { ipfs: { defaultBeaconPath: "/ipns/beacon" } },
+      storage: new MemoryTokenStorage(),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockRejectedValue(new Error("offline"));
+  });
+
+  describe("updateConfig", () => {
+    it("should apply a new fallback mode to cTRNG requests", async () => {
+      const sdk = createSDK();
+
+      sdk.updateConfig({ fallback: "never" });
+
+      await expect(sdk.ctrng.random()).rejects.toMatchObject({
+        code: "FALLBACK_FAILED",
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should merge IPFS settings into the existing ones", () => {
+      const sdk = createSDK();
+
+      sdk.updateConfig({ ipfs: { quorum: 2 } });
+
+      expect(sdk.getConfig().ipfs).toMatchObject({
+        defaultBeaconPath: "/ipns/beacon",
+        quorum: 2,
+      });
+    });
+  });
+
+  describe("getConfig", () => {
+    it("should redact the credential provider", () => {
+      const sdk = new OrbitportSDK({
+        config: {
+          credentials: new StaticCredentialProvider("client-id", "secret"),
+        },
+        storage: new MemoryTokenStorage(),
+      });
+
+      expect(sdk.getConfig()).toMatchObject({
+        clientId: "[REDACTED]",
+        clientSecret: "[REDACTED]",
+        credentials: "[REDACTED]",
+      });
+    });
+  });
+});
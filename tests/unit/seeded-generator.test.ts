@@ -0,0 +1,90 @@
+/**
+ * Unit tests for SeededGenerator
+ */
+
+import { SeededGenerator } from "../../src/services/seeded-generator";
+import { BeaconData } from "../../src/types";
+
+const block = (sequence: number, ctrng: number[]): BeaconData => ({
+  sequence,
+  timestamp: "2024-01-01T00:00:00Z",
+  ctrng,
+});
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+describe("SeededGenerator", () => {
+  it("should derive its stream from the documented seed", async () => {
+    const generator = await SeededGenerator.fromBeacon(block(42, [1, 2, 3]));
+
+    // SHA-512 mix of the label and "42:1,2,3", then ChaCha20 from counter 0
+    expect(hex(generator.bytes(16))).toBe("382dfb4d3d45e4a284d9326f77df2745");
+    expect(generator.sequence).toBe(42);
+    expect(generator.label).toBe("");
+  });
+
+  it("should replay the same draws for the same block and label", async () => {
+    const draw = async () => {
+      const generator = await SeededGenerator.fromBeacon(
+        block(7, [11, 22, 33]),
+        "lottery"
+      );
+      return [
+        generator.nextInt(1, 49),
+        generator.nextFloat(),
+        hex(generator.bytes(32)),
+      ];
+    };
+
+    expect(await draw()).toEqual(await draw());
+  });
+
+  it("should separate streams by label and block", async () => {
+    const first = await SeededGenerator.fromBeacon(block(7, [11, 22]), "a");
+    const otherLabel = await SeededGenerator.fromBeacon(
+      block(7, [11, 22]),
+      "b"
+    );
+    const otherBlock = await SeededGenerator.fromBeacon(
+      block(8, [11, 22]),
+      "a"
+    );
+
+    const bytes = hex(first.bytes(32));
+    expect(hex(otherLabel.bytes(32))).not.toBe(bytes);
+    expect(hex(otherBlock.bytes(32))).not.toBe(bytes);
+  });
+
+  it("should continue the keystream across calls", async () => {
+    const whole = await SeededGenerator.fromBeacon(block(1, [5]));
+    const split = await SeededGenerator.fromBeacon(block(1, [5]));
+
+    const expected = hex(whole.bytes(100));
+    expect(hex(split.bytes(30)) + hex(split.bytes(70))).toBe(expected);
+  });
+
+  it("should keep integers and floats in range", async () => {
+    const generator = await SeededGenerator.fromBeacon(block(3, [9, 8, 7]));
+
+    for (let i = 0; i < 200; i++) {
+      const value = generator.nextInt(-3, 3);
+      expect(value).toBeGreaterThanOrEqual(-3);
+      expect(value).toBeLessThanOrEqual(3);
+
+      const float = generator.nextFloat();
+      expect(float).toBeGreaterThanOrEqual(0);
+      expect(float).toBeLessThan(1);
+    }
+    expect(generator.nextInt(5, 5)).toBe(5);
+  });
+
+  it("should validate its inputs", async () => {
+    await expect(SeededGenerator.fromBeacon(block(1, []))).rejects.toThrow(
+      "No cTRNG values found in beacon data"
+    );
+
+    const generator = await SeededGenerator.fromBeacon(block(1, [5]));
+    expect(() => generator.nextInt(2, 1)).toThrow();
+    expect(() => generator.bytes(0)).toThrow();
+  });
+});
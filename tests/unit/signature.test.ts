@@ -0,0 +1,175 @@
+/**
+ * Unit tests for signature verification utilities
+ */
+
+import {
+  decodeBinary,
+  resolveSignatureAlgorithm,
+  toHex,
+  verifyCTRNGSignature,
+} from "../../src/utils/signature";
+import type { CTRNGResponse } from "../../src/types";
+
+const encoder = new TextEncoder();
+
+const generateKeyPair = (algorithm: "Ed25519" | "ECDSA") =>
+  (algorithm === "Ed25519"
+    ? crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])
+    : crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, [
+      "sign",
+      "verify",
+    ])) as Promise<CryptoKeyPair>;
+
+const sign = async (
+  algorithm: "Ed25519" | "ECDSA",
+  privateKey: CryptoKey,
+  data: string
+) =>
+  toHex(
+    new Uint8Array(
+      await crypto.subtle.sign(
+        algorithm === "Ed25519"
+          ? { name: "Ed25519" }
+          : { name: "ECDSA", hash: "SHA-256" },
+        privateKey,
+        encoder.encode(data)
+      )
+    )
+  );
+
+const exportRaw = async (key: CryptoKey) =>
+  toHex(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+
+describe("Signature Utilities", () => {
+  describe("decodeBinary", () => {
+    it("should decode hex and base64 values", () => {
+      expect(Array.from(decodeBinary("0x0aff"))).toEqual([10, 255]);
+      expect(Array.from(decodeBinary("Cv8="))).toEqual([10, 255]);
+      expect(Array.from(decodeBinary("Cv8"))).toEqual([10, 255]);
+    });
+  });
+
+  describe("resolveSignatureAlgorithm", () => {
+    it("should normalize algorithm names", () => {
+      expect(resolveSignatureAlgorithm("ed25519", 32)).toBe("Ed25519");
+      expect(resolveSignatureAlgorithm("ECDSA-P256", 65)).toBe("ECDSA-P256");
+      expect(resolveSignatureAlgorithm("ES256", 65)).toBe("ECDSA-P256");
+      expect(resolveSignatureAlgorithm("rsa", 256)).toBeNull();
+    });
+
+    it("should infer the algorithm from the key length", () => {
+      expect(resolveSignatureAlgorithm(undefined, 32)).toBe("Ed25519");
+      expect(resolveSignatureAlgorithm(undefined, 65)).toBe("ECDSA-P256");
+    });
+  });
+
+  describe("verifyCTRNGSignature", () => {
+    it("should verify an Ed25519 signature from a trusted key", async () => {
+      const { publicKey, privateKey } = await generateKeyPair("Ed25519");
+      const pk = await exportRaw(publicKey);
+      const response: CTRNGResponse = {
+        service: "trng",
+        src: "trng",
+        data: "deadbeef",
+        signature: {
+          value: await sign("Ed25519", privateKey, "deadbeef"),
+          pk,
+          algo: "ed25519",
+        },
+      };
+
+      const result = await verifyCTRNGSignature(response, [pk]);
+      expect(result).toEqual({ valid: true, algorithm: "Ed25519", publicKey: pk });
+    });
+
+    it("should verify an ECDSA P-256 signature against an SPKI pinned key", async () => {
+      const { publicKey, privateKey } = await generateKeyPair("ECDSA");
+      const spki = toHex(
+        new Uint8Array(await crypto.subtle.exportKey("spki", publicKey))
+      );
+      const response: CTRNGResponse = {
+        service: "trng",
+        src: "trng",
+        data: "cafebabe",
+        signature: {
+          value: await sign("ECDSA", privateKey, "cafebabe"),
+          pk: await exportRaw(publicKey),
+          algo: "ecdsa-p256",
+        },
+      };
+
+      const result = await verifyCTRNGSignature(response, [spki]);
+      expect(result.valid).toBe(true);
+      expect(result.algorithm).toBe("ECDSA-P256");
+    });
+
+    it("should try every trusted key when the response has no pk", async () => {
+      const other = await generateKeyPair("Ed25519");
+      const { publicKey, privateKey } = await generateKeyPair("Ed25519");
+      const response: CTRNGResponse = {
+        service: "trng",
+        src: "trng",
+        data: "00",
+        signature: { value: await sign("Ed25519", privateKey, "00"), pk: "" },
+      };
+
+      const result = await verifyCTRNGSignature(response, [
+        await exportRaw(other.publicKey),
+        await exportRaw(publicKey),
+      ]);
+      expect(result.valid).toBe(true);
+    });
+
+    it("should reject keys that are not pinned", async () => {
+      const trusted = await generateKeyPair("Ed25519");
+      const { publicKey, privateKey } = await generateKeyPair("Ed25519");
+      const response: CTRNGResponse = {
+        service: "trng",
+        src: "trng",
+        data: "00",
+        signature: {
+          value: await sign("Ed25519", privateKey, "00"),
+          pk: await exportRaw(publicKey),
+        },
+      };
+
+      const result = await verifyCTRNGSignature(response, [
+        await exportRaw(trusted.publicKey),
+      ]);
+      expect(result.valid).toBe(false);
+      expect(result.reason).toBe("Response public key is not trusted");
+    });
+
+    it("should reject tampered data", async () => {
+      const { publicKey, privateKey } = await generateKeyPair("Ed25519");
+      const pk = await exportRaw(publicKey);
+      const response: CTRNGResponse = {
+        service: "trng",
+        src: "trng",
+        data: "tampered",
+        signature: { value: await sign("Ed25519", privateKey, "original"), pk },
+      };
+
+      const result = await verifyCTRNGSignature(response, [pk]);
+      expect(result.valid).toBe(false);
+      expect(result.reason).toBe("Signature does not match response data");
+    });
+
+    it("should reject unsigned responses and missing trusted keys", async () => {
+      const unsigned: CTRNGResponse = { service: "trng", src: "trng", data: "00" };
+      expect(await verifyCTRNGSignature(unsigned, ["00"])).toEqual({
+        valid: false,
+        reason: "Response is not signed",
+      });
+
+      const signed: CTRNGResponse = {
+        ...unsigned,
+        signature: { value: "00", pk: "" },
+      };
+      expect(await verifyCTRNGSignature(signed)).toEqual({
+        valid: false,
+        reason: "No trusted public keys configured",
+      });
+    });
+  });
+});
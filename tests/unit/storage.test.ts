@@ -83,6 +83,17 @@ describe("Storage Implementations", () => {
       const retrieved = await storage.get();
       expect(retrieved).toBeNull();
     });
+
+    it("should keep scoped tokens apart from the default token", async () => {
+      const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+
+      await storage.set("default-token", expiresAt);
+      await storage.set("scoped-token", expiresAt, "https://api|trng:read");
+      await storage.clear();
+
+      expect(await storage.get()).toBeNull();
+      expect(await storage.get("https://api|trng:read")).toBe("scoped-token");
+    });
   });
 
   describe("BrowserTokenStorage", () => {
@@ -114,6 +125,22 @@ describe("Storage Implementations", () => {
       expect(retrieved).toBe(token);
     });
 
+    it("should store scoped tokens under their own item", async () => {
+      mockLocalStorage.setItem.mockImplementation(() => {});
+      const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+
+      await storage.set("scoped-token", expiresAt, "https://api|trng:read");
+      await storage.clear("https://api|trng:read");
+
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        "test-key:https://api|trng:read",
+        expect.stringContaining('"access_token":"scoped-token"')
+      );
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(
+        "test-key:https://api|trng:read"
+      );
+    });
+
     it("should return null for expired token", async () => {
       const token = "test-token";
       const expiresAt = Math.floor(Date.now() / 1000) - 3600;
@@ -254,6 +281,14 @@ describe("Storage Implementations", () => {
       expect(mockClearer).toHaveBeenCalled();
       expect(retrieved).toBe(token);
     });
+
+    it("should only declare key support when asked to", () => {
+      expect(storage.supportsKeys).toBe(false);
+      expect(
+        new CustomTokenStorage(mockGetter, mockSetter, mockClearer, true)
+          .supportsKeys
+      ).toBe(true);
+    });
   });
 
   describe("createDefaultStorage", () => {
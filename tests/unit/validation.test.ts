@@ -6,6 +6,10 @@ import {
   validateConfig,
   validateCTRNGRequest,
   validateRequestOptions,
+  validateIntRange,
+  validateByteLength,
+  MAX_BYTE_LENGTH,
+  validateHistoryOptions,
   isValidUrl,
   isValidJWT,
   isTokenExpired,
@@ -13,6 +17,7 @@ import {
   sanitizeCTRNGRequest,
   sanitizeRequestOptions,
 } from "../../src/utils/validation";
+import { DivergencePolicy } from "../../src/types";
 
 describe("Validation Utilities", () => {
   describe("validateConfig", () => {
@@ -81,9 +86,112 @@ describe("Validation Utilities", () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toContain("timeout must be a positive number");
     });
+
+    it("should validate custom IPFS nodes and quorum", () => {
+      expect(
+        validateConfig({
+          ipfs: {
+            customNodes: [
+              { url: "https://gateway-b.com", type: "gateway" },
+              { url: "https://trustless.example.com", type: "car" },
+            ],
+            quorum: 2,
+          },
+        }).valid
+      ).toBe(true);
+
+      const result = validateConfig({
+        ipfs: {
+          customNodes: [{ url: "not-a-url", type: "gateway" }],
+          quorum: 0,
+        },
+      });
+      expect(result.errors).toEqual([
+        "ipfs.customNodes must be an array of nodes with a valid url and type 'gateway', 'api' or 'car'",
+        "ipfs.quorum must be a positive integer",
+      ]);
+    });
+
+    it("should validate the fallback mode", () => {
+      expect(
+        validateConfig({ fallback: "ipfs-only-on-network-error" }).valid
+      ).toBe(true);
+      expect(validateConfig({ fallback: "off" as any }).errors).toEqual([
+        "fallback must be 'auto', 'never' or 'ipfs-only-on-network-error'",
+      ]);
+    });
+
+    it("should validate the credential provider", () => {
+      const credentials = {
+        getCredentials: async () => ({ clientId: "id", clientSecret: "s" }),
+      };
+      expect(validateConfig({ credentials }).valid).toBe(true);
+      expect(
+        validateConfig({ credentials, clientId: "id", clientSecret: "s" })
+          .errors
+      ).toEqual([
+        "credentials cannot be combined with clientId and clientSecret",
+      ]);
+    });
+
+    it("should validate the token scopes", () => {
+      expect(
+        validateConfig({ tokenScopes: { ctrng: { scope: "trng:read" } } }).valid
+      ).toBe(true);
+      expect(
+        validateConfig({ tokenScopes: { ctrng: { audience: "" } } }).errors
+      ).toEqual([
+        "tokenScopes entries must have a non-empty string audience and scope when set",
+      ]);
+    });
+
+    it("should validate the token refresh options", () => {
+      expect(
+        validateConfig({ tokenRefresh: { enabled: true, refreshAt: 0.75 } })
+          .valid
+      ).toBe(true);
+      expect(
+        validateConfig({
+          tokenRefresh: { enabled: true, refreshAt: 1, jitter: -0.1 },
+        }).errors
+      ).toEqual([
+        "tokenRefresh.refreshAt must be a number between 0 and 1",
+        "tokenRefresh.jitter must be a number in [0, 1)",
+      ]);
+    });
+
+    it("should validate the divergence policy", () => {
+      expect(
+        validateConfig({ ipfs: { divergencePolicy: "require-match" } }).valid
+      ).toBe(true);
+      expect(
+        validateConfig({ ipfs: { divergencePolicy: () => null } }).valid
+      ).toBe(true);
+      expect(
+        validateConfig({
+          ipfs: { divergencePolicy: "newest" as DivergencePolicy },
+        }).errors
+      ).toEqual([
+        "ipfs.divergencePolicy must be 'prefer-latest', 'require-match', 'prefer-gateway', 'prefer-api' or a function",
+      ]);
+    });
   });
 
   describe("validateCTRNGRequest", () => {
+    it("should validate the fallback mode of API requests", () => {
+      expect(
+        validateCTRNGRequest({ src: "trng", fallback: "never" }).valid
+      ).toBe(true);
+      expect(
+        validateCTRNGRequest({ src: "rng", fallback: "always" as any }).errors
+      ).toEqual([
+        "fallback must be 'auto', 'never' or 'ipfs-only-on-network-error'",
+      ]);
+      expect(
+        validateCTRNGRequest({ src: "ipfs", fallback: "never" } as any).errors
+      ).toEqual(["fallback can only be used with src: 'trng' or 'rng'"]);
+    });
+
     it("should validate correct API request", () => {
       const request = { src: "trng" as const };
       const result = validateCTRNGRequest(request);
@@ -196,6 +304,12 @@ describe("Validation Utilities", () => {
       );
     });
 
+    it("should reject verify for IPFS requests", () => {
+      const result = validateCTRNGRequest({ src: "ipfs", verify: true } as any);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("verify can only be used with src");
+    });
+
     it("should accept empty request", () => {
       const request = {};
       const result = validateCTRNGRequest(request);
@@ -233,6 +347,71 @@ describe("Validation Utilities", () => {
     });
   });
 
+  describe("validateIntRange", () => {
+    it("should validate a correct range", () => {
+      expect(validateIntRange(1, 6).valid).toBe(true);
+      expect(validateIntRange(-5, -5).valid).toBe(true);
+    });
+
+    it("should reject non-integer bounds", () => {
+      const result = validateIntRange(0.5, Number.MAX_SAFE_INTEGER + 1);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("min must be a safe integer");
+      expect(result.errors).toContain("max must be a safe integer");
+    });
+
+    it("should reject min greater than max", () => {
+      const result = validateIntRange(10, 1);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("min must be less than or equal to max");
+    });
+  });
+
+  describe("validateByteLength", () => {
+    it("should accept positive integers", () => {
+      expect(validateByteLength(32).valid).toBe(true);
+    });
+
+    it("should reject zero, negative and fractional lengths", () => {
+      expect(validateByteLength(0).valid).toBe(false);
+      expect(validateByteLength(-1).valid).toBe(false);
+      expect(validateByteLength(1.5).valid).toBe(false);
+    });
+
+    it("should reject lengths above the maximum", () => {
+      expect(validateByteLength(MAX_BYTE_LENGTH).valid).toBe(true);
+      expect(validateByteLength(MAX_BYTE_LENGTH + 1).errors).toEqual([
+        `length must not exceed ${MAX_BYTE_LENGTH} bytes`,
+      ]);
+      expect(validateByteLength(1e10).valid).toBe(false);
+    });
+  });
+
+  describe("validateHistoryOptions", () => {
+    it("should accept valid options", () => {
+      expect(
+        validateHistoryOptions({
+          limit: 10,
+          untilSequence: 0,
+          untilTimestamp: "2024-01-01T00:00:00Z",
+        }).valid
+      ).toBe(true);
+    });
+
+    it("should reject invalid bounds", () => {
+      const result = validateHistoryOptions({
+        limit: -1,
+        untilSequence: 1.5,
+        untilTimestamp: "yesterday",
+      });
+      expect(result.errors).toEqual([
+        "limit must be a positive integer",
+        "untilSequence must be a non-negative integer",
+        "untilTimestamp must be a valid date",
+      ]);
+    });
+  });
+
   describe("isValidUrl", () => {
     it("should validate correct URLs", () => {
       expect(isValidUrl("https://example.com")).toBe(true);
@@ -340,6 +519,16 @@ describe("Validation Utilities", () => {
       expect(result.src).toBe("trng");
     });
 
+    it("should preserve the verify flag for API requests", () => {
+      const result = sanitizeCTRNGRequest({ src: "trng", verify: true });
+      expect(result).toEqual({ src: "trng", verify: true });
+    });
+
+    it("should preserve the fallback mode for API requests", () => {
+      const result = sanitizeCTRNGRequest({ src: "rng", fallback: "never" });
+      expect(result).toEqual({ src: "rng", fallback: "never" });
+    });
+
     it("should preserve valid API src", () => {
       const request = { src: "rng" as const };
       const result = sanitizeCTRNGRequest(request);